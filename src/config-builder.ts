@@ -0,0 +1,125 @@
+/**
+ * Building and writing new config files, shared by the `new` wizard and its flag-driven form
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { configFileName, getGlobalConfigDir, getLocalConfigDir } from './config-resolver.js';
+import { formatFromPath, serializeConfig, stripConfigExtension } from './config-formats.js';
+import { formatSchemaIssues } from './config-schema.js';
+import { registryManifest } from './config-templates.js';
+import { ChatConfigSchema } from './types.js';
+
+export interface ProviderInfo {
+  id: string;
+  label: string;
+  models: string[];
+}
+
+/**
+ * Providers offered by the wizard, with suggested models (the first is the default)
+ */
+export const PROVIDERS: ProviderInfo[] = [
+  { id: 'anthropic', label: 'Anthropic', models: ['claude-sonnet-4-20250514', 'claude-opus-4-20250514'] },
+  { id: 'google', label: 'Google', models: ['gemini-2.5-pro-preview-06-05', 'gemini-2.5-flash-preview-05-20'] },
+  { id: 'openai', label: 'OpenAI', models: ['gpt-4o', 'gpt-4o-mini'] }
+];
+
+// Chat actor used by the shipped configs
+export const DEFAULT_CHAT_MANIFEST = registryManifest('chat-proxy-example');
+
+export type McpServerAnswer =
+  | { kind: 'stdio'; command: string; args: string[] }
+  | { kind: 'actor'; manifestPath: string };
+
+export interface NewConfigAnswers {
+  name: string;
+  target: 'local' | 'global';
+  manifestPath: string;
+  provider: string;
+  model: string;
+  temperature?: number | undefined;
+  maxTokens?: number | undefined;
+  systemPrompt?: string | undefined;
+  title?: string | undefined;
+  mcpServers: McpServerAnswer[];
+}
+
+/**
+ * Raised when the answers do not produce a valid config or the file cannot be written
+ */
+export class NewConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NewConfigError';
+  }
+}
+
+/**
+ * Path a new config with this name would be written to
+ */
+export function getNewConfigPath(name: string, target: 'local' | 'global'): string {
+  const dir = target === 'local' ? getLocalConfigDir() : getGlobalConfigDir();
+  return join(dir, configFileName(name));
+}
+
+/**
+ * Split an MCP stdio command line (`/path/to/server --flag value`) into command and args
+ */
+export function parseStdioCommand(commandLine: string): McpServerAnswer {
+  const [command = '', ...args] = commandLine.trim().split(/\s+/);
+  return { kind: 'stdio', command, args };
+}
+
+/**
+ * Escape text so `${...}` in it is kept literally rather than interpolated when the config loads
+ */
+function escapeVariables(text: string): string {
+  return text.replace(/\$\{/g, () => '$${');
+}
+
+/**
+ * Build a config in the shape of the shipped configs and validate it
+ */
+export function buildNewConfig(answers: NewConfigAnswers): Record<string, any> {
+  const config = {
+    actor: {
+      manifest_path: answers.manifestPath
+    },
+    config: {
+      model_config: {
+        model: answers.model,
+        provider: answers.provider
+      },
+      ...(answers.temperature !== undefined ? { temperature: answers.temperature } : {}),
+      ...(answers.maxTokens !== undefined ? { max_tokens: answers.maxTokens } : {}),
+      ...(answers.systemPrompt ? { system_prompt: escapeVariables(answers.systemPrompt) } : {}),
+      title: escapeVariables(answers.title || stripConfigExtension(answers.name)),
+      mcp_servers: answers.mcpServers.map(server => server.kind === 'stdio'
+        ? { actor_id: null, stdio: { command: server.command, args: server.args }, tools: null }
+        : { actor_id: null, actor: { manifest_path: server.manifestPath }, tools: null })
+    }
+  };
+
+  const result = ChatConfigSchema.safeParse(config);
+  if (!result.success) {
+    throw new NewConfigError(`Invalid config:\n  ${formatSchemaIssues(result.error).join('\n  ')}`);
+  }
+  return config;
+}
+
+/**
+ * Validate and write a new config, returning its path
+ */
+export function writeNewConfig(answers: NewConfigAnswers, force: boolean = false): string {
+  const config = buildNewConfig(answers);
+  const path = getNewConfigPath(answers.name, answers.target);
+
+  if (existsSync(path) && !force) {
+    throw new NewConfigError(`Config already exists: ${path} (use --force to overwrite)`);
+  }
+
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, serializeConfig(config, formatFromPath(path) ?? 'json').text);
+  return path;
+}
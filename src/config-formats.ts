@@ -0,0 +1,261 @@
+/**
+ * Config file formats: JSON, YAML and TOML parsing, serialization and source line lookup
+ */
+
+import { extname } from 'path';
+import { LineCounter, parseDocument, stringify as stringifyYaml, isMap, isScalar, isSeq, type Node } from 'yaml';
+import { parse as parseToml, stringify as stringifyToml, TomlError } from 'smol-toml';
+import { formatIssuePath } from './config-schema.js';
+
+export type ConfigFormat = 'json' | 'yaml' | 'toml';
+
+// Extensions recognised as configs, in the order they are tried when a name has no extension
+export const CONFIG_EXTENSIONS = ['.json', '.yaml', '.yml', '.toml'];
+
+const FORMAT_EXTENSIONS: Record<ConfigFormat, string> = {
+  json: '.json',
+  yaml: '.yaml',
+  toml: '.toml'
+};
+
+/**
+ * Raised when a config file is not valid JSON, YAML or TOML
+ */
+export class ConfigParseError extends Error {
+  constructor(
+    public readonly configPath: string,
+    public readonly line: number | undefined,
+    public readonly reason: string
+  ) {
+    super(`Invalid ${formatFromPath(configPath)?.toUpperCase() ?? 'config'} in ${configPath}${line ? ` (line ${line})` : ''}: ${reason}`);
+    this.name = 'ConfigParseError';
+  }
+}
+
+/**
+ * Format of a config file from its extension, or null if it is not a config file
+ */
+export function formatFromPath(path: string): ConfigFormat | null {
+  switch (extname(path).toLowerCase()) {
+    case '.json': return 'json';
+    case '.yaml':
+    case '.yml': return 'yaml';
+    case '.toml': return 'toml';
+    default: return null;
+  }
+}
+
+/**
+ * Parse a format name given on the command line
+ */
+export function parseConfigFormat(value: string): ConfigFormat | null {
+  const normalized = value.toLowerCase().replace(/^\./, '');
+  if (normalized === 'yml') return 'yaml';
+  return normalized === 'json' || normalized === 'yaml' || normalized === 'toml' ? normalized : null;
+}
+
+export function formatExtension(format: ConfigFormat): string {
+  return FORMAT_EXTENSIONS[format];
+}
+
+/**
+ * Config name without its extension (`work/review.yaml` -> `work/review`)
+ */
+export function stripConfigExtension(name: string): string {
+  return formatFromPath(name) ? name.slice(0, -extname(name).length) : name;
+}
+
+/**
+ * Line of a JSON syntax error, from the position V8 reports
+ */
+function jsonErrorLine(text: string, error: Error): number | undefined {
+  const lineMatch = /line (\d+)/.exec(error.message);
+  if (lineMatch) {
+    return Number(lineMatch[1]);
+  }
+  const positionMatch = /position (\d+)/.exec(error.message);
+  if (positionMatch) {
+    return text.slice(0, Number(positionMatch[1])).split('\n').length;
+  }
+  return undefined;
+}
+
+/**
+ * Parse config text in the format of its path
+ */
+export function parseConfigText(text: string, path: string): any {
+  const format = formatFromPath(path) ?? 'json';
+
+  if (format === 'yaml') {
+    const lineCounter = new LineCounter();
+    const document = parseDocument(text, { lineCounter, prettyErrors: false });
+    const error = document.errors[0];
+    if (error) {
+      throw new ConfigParseError(path, lineCounter.linePos(error.pos[0]).line, error.message.split('\n')[0]!);
+    }
+    return document.toJS();
+  }
+
+  if (format === 'toml') {
+    try {
+      return parseToml(text);
+    } catch (error) {
+      if (error instanceof TomlError) {
+        throw new ConfigParseError(path, error.line, error.message.split('\n')[0]!);
+      }
+      throw error;
+    }
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new ConfigParseError(path, jsonErrorLine(text, error), error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Remove null values, which TOML cannot represent, collecting the paths that were dropped
+ */
+function dropNulls(value: any, path: Array<string | number>, dropped: string[]): any {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => dropNulls(item, [...path, index], dropped));
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, child] of Object.entries(value)) {
+      if (child === null) {
+        dropped.push(formatIssuePath([...path, key]));
+      } else {
+        result[key] = dropNulls(child, [...path, key], dropped);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Serialize a config. Converting to TOML drops null values; their paths are returned.
+ */
+export function serializeConfig(value: any, format: ConfigFormat): { text: string; droppedNulls: string[] } {
+  switch (format) {
+    case 'yaml':
+      return { text: stringifyYaml(value, { lineWidth: 0 }), droppedNulls: [] };
+    case 'toml': {
+      const droppedNulls: string[] = [];
+      const text = stringifyToml(dropNulls(value, [], droppedNulls));
+      return { text: text.endsWith('\n') ? text : `${text}\n`, droppedNulls };
+    }
+    case 'json':
+      return { text: `${JSON.stringify(value, null, 2)}\n`, droppedNulls: [] };
+  }
+}
+
+/**
+ * Map every path in a YAML document (formatted like `config.mcp_servers[0]`) to the line it starts on
+ */
+export function locateYamlPaths(text: string): Map<string, number> {
+  const lines = new Map<string, number>([['(root)', 1]]);
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, { lineCounter, prettyErrors: false });
+  const lineOf = (node: { range?: [number, number, number] | null | undefined }) =>
+    node.range ? lineCounter.linePos(node.range[0]).line : undefined;
+
+  const walk = (node: Node | null | undefined, path: Array<string | number>) => {
+    if (isMap(node)) {
+      for (const pair of node.items) {
+        const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+        const childPath = [...path, key];
+        const line = isScalar(pair.key) ? lineOf(pair.key) : undefined;
+        if (line !== undefined) {
+          lines.set(formatIssuePath(childPath), line);
+        }
+        walk(pair.value as Node | null, childPath);
+      }
+    } else if (isSeq(node)) {
+      node.items.forEach((item, index) => {
+        const childPath = [...path, index];
+        const line = item && typeof item === 'object' && 'range' in item ? lineOf(item as Node) : undefined;
+        if (line !== undefined) {
+          lines.set(formatIssuePath(childPath), line);
+        }
+        walk(item as Node | null, childPath);
+      });
+    }
+  };
+
+  walk(document.contents as Node | null, []);
+  return lines;
+}
+
+/**
+ * Map table headers and keys in a TOML document to the lines they are on. Best effort:
+ * values inside inline tables and arrays are not located.
+ */
+export function locateTomlPaths(text: string): Map<string, number> {
+  const lines = new Map<string, number>([['(root)', 1]]);
+  const arrayCounts = new Map<string, number>();
+  let table: Array<string | number> = [];
+  let multilineDelimiter: string | null = null;
+
+  const splitKey = (key: string): string[] =>
+    key.split('.').map(part => part.trim().replace(/^(["'])(.*)\1$/, '$2'));
+
+  // `[a.b]` after `[[a]]` is a table inside the latest element of `a`
+  const tablePath = (key: string): Array<string | number> => {
+    const path: Array<string | number> = [];
+    for (const part of splitKey(key)) {
+      path.push(part);
+      const count = arrayCounts.get(formatIssuePath(path));
+      if (count !== undefined) path.push(count - 1);
+    }
+    return path;
+  };
+
+  text.split('\n').forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.trim();
+
+    if (multilineDelimiter) {
+      if (line.includes(multilineDelimiter)) multilineDelimiter = null;
+      return;
+    }
+    if (!line || line.startsWith('#')) return;
+
+    const arrayHeader = /^\[\[\s*(.+?)\s*\]\]/.exec(line);
+    const tableHeader = arrayHeader ? null : /^\[\s*(.+?)\s*\]/.exec(line);
+    if (arrayHeader) {
+      const parent = tablePath(arrayHeader[1]!);
+      if (typeof parent[parent.length - 1] === 'number') parent.pop();
+      const parentPath = formatIssuePath(parent);
+      const position = arrayCounts.get(parentPath) ?? 0;
+      arrayCounts.set(parentPath, position + 1);
+      table = [...parent, position];
+      if (!lines.has(parentPath)) lines.set(parentPath, lineNumber);
+      lines.set(formatIssuePath(table), lineNumber);
+      return;
+    }
+    if (tableHeader) {
+      table = tablePath(tableHeader[1]!);
+      lines.set(formatIssuePath(table), lineNumber);
+      return;
+    }
+
+    const assignment = /^((?:[A-Za-z0-9_-]+|"[^"]*"|'[^']*')(?:\s*\.\s*(?:[A-Za-z0-9_-]+|"[^"]*"|'[^']*'))*)\s*=\s*(.*)$/.exec(line);
+    if (assignment) {
+      lines.set(formatIssuePath([...table, ...splitKey(assignment[1]!)]), lineNumber);
+      const value = assignment[2]!;
+      for (const delimiter of ['"""', "'''"]) {
+        if (value.startsWith(delimiter) && !value.slice(3).includes(delimiter)) {
+          multilineDelimiter = delimiter;
+        }
+      }
+    }
+  });
+
+  return lines;
+}
@@ -0,0 +1,213 @@
+/**
+ * Variable interpolation for config files
+ *
+ * Any string value in a config may reference:
+ *   ${env:NAME}             environment variable (error if unset)
+ *   ${env:NAME:-default}    environment variable with a fallback (the fallback may itself use variables)
+ *   ${secret:NAME}          secret from THEATER_CHAT_SECRET_NAME or the secrets file (error if unset)
+ *   ${cwd}                  current working directory
+ *   ${home}                 user home directory
+ *   ${configDir}            directory containing the config file
+ *   ${projectRoot}          nearest ancestor of the cwd containing .git (or the cwd)
+ * Write `$${` for a literal `${`.
+ */
+
+import { existsSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { homedir } from 'os';
+import { resolveSecret, secretEnvName, SecretsError } from './secrets.js';
+
+export interface InterpolationContext {
+  configPath: string;
+  cwd: string;
+  home: string;
+  configDir: string;
+  projectRoot: string;
+  env: Record<string, string | undefined>;
+  secret: (name: string) => string | undefined;
+}
+
+/**
+ * Raised when a config references a variable that cannot be resolved
+ */
+export class ConfigInterpolationError extends Error {
+  constructor(
+    public configPath: string,
+    public jsonPath: string,
+    public variable: string,
+    reason: string
+  ) {
+    super(`Unresolved variable \${${variable}} at ${jsonPath} in ${configPath}: ${reason}`);
+    this.name = 'ConfigInterpolationError';
+  }
+}
+
+/**
+ * Find the nearest ancestor of a directory containing .git, falling back to the directory itself
+ */
+export function findProjectRoot(startDir: string = process.cwd()): string {
+  let dir = resolve(startDir);
+  while (true) {
+    if (existsSync(join(dir, '.git'))) {
+      return dir;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return resolve(startDir);
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Build the interpolation context for a config file loaded from disk
+ */
+export function createInterpolationContext(configPath: string): InterpolationContext {
+  return {
+    configPath,
+    cwd: process.cwd(),
+    home: homedir(),
+    configDir: dirname(resolve(configPath)),
+    projectRoot: findProjectRoot(),
+    env: process.env,
+    secret: resolveSecret
+  };
+}
+
+/**
+ * Find the index of the `}` closing a `${` that starts at `start`, allowing nested `${...}`
+ */
+function findClosingBrace(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '$' && text[i + 1] === '{') {
+      depth++;
+      i++;
+    } else if (text[i] === '}') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Resolve a single variable expression (the text between `${` and `}`)
+ */
+function resolveVariable(expression: string, context: InterpolationContext, jsonPath: string): string {
+  const fail = (reason: string): never => {
+    throw new ConfigInterpolationError(context.configPath, jsonPath, expression, reason);
+  };
+
+  if (expression.startsWith('env:')) {
+    const body = expression.slice('env:'.length);
+    const defaultIndex = body.indexOf(':-');
+    const name = defaultIndex === -1 ? body : body.slice(0, defaultIndex);
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      fail(`invalid environment variable name "${name}"`);
+    }
+
+    const value = context.env[name];
+    if (value !== undefined && value !== '') {
+      return value;
+    }
+    if (defaultIndex !== -1) {
+      return interpolateString(body.slice(defaultIndex + 2), context, jsonPath);
+    }
+    return fail(`environment variable ${name} is not set`);
+  }
+
+  if (expression.startsWith('secret:')) {
+    const name = expression.slice('secret:'.length);
+    let value: string | undefined;
+    try {
+      value = context.secret(name);
+    } catch (error) {
+      if (error instanceof SecretsError) {
+        return fail(error.message);
+      }
+      throw error;
+    }
+    if (value === undefined) {
+      return fail(`secret ${name} is not set (run \`theater-chat secrets set ${name}\` or set ${secretEnvName(name)})`);
+    }
+    return value;
+  }
+
+  switch (expression) {
+    case 'cwd':
+      return context.cwd;
+    case 'home':
+      return context.home;
+    case 'configDir':
+      return context.configDir;
+    case 'projectRoot':
+      return context.projectRoot;
+    default:
+      return fail('unknown variable (expected env:NAME, secret:NAME, cwd, home, configDir or projectRoot)');
+  }
+}
+
+/**
+ * Expand all variables in a string
+ */
+function interpolateString(text: string, context: InterpolationContext, jsonPath: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < text.length) {
+    // Escaped literal: $${ -> ${
+    if (text.startsWith('$${', i)) {
+      result += '${';
+      i += 3;
+      continue;
+    }
+
+    if (text.startsWith('${', i)) {
+      const end = findClosingBrace(text, i);
+      if (end === -1) {
+        throw new ConfigInterpolationError(context.configPath, jsonPath, text.slice(i + 2), 'missing closing "}"');
+      }
+      result += resolveVariable(text.slice(i + 2, end), context, jsonPath);
+      i = end + 1;
+      continue;
+    }
+
+    result += text[i];
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Build a JSON path segment for an object key or array index
+ */
+function childPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${parent}[${key}]`;
+  }
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? (parent ? `${parent}.${key}` : key) : `${parent}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Recursively expand variables in every string value of a parsed config
+ */
+export function interpolateConfig(value: any, context: InterpolationContext, jsonPath: string = ''): any {
+  if (typeof value === 'string') {
+    return interpolateString(value, context, jsonPath || '(root)');
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateConfig(item, context, childPath(jsonPath, index)));
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, child] of Object.entries(value)) {
+      result[key] = interpolateConfig(child, context, childPath(jsonPath, key));
+    }
+    return result;
+  }
+  return value;
+}
@@ -0,0 +1,82 @@
+/**
+ * Deep merge used for config inheritance (`"extends": "<config>"`)
+ *
+ * Objects merge key by key, and scalars in the child replace the parent's value.
+ * Arrays are replaced by default. To combine an array with the inherited one, use a directive object:
+ *   { "$append": [...] }    parent items, then these
+ *   { "$prepend": [...] }   these, then parent items
+ *   { "$replace": [...] }   these only (same as a plain array)
+ */
+
+const ARRAY_DIRECTIVES = ['$append', '$prepend', '$replace'] as const;
+
+type ArrayDirective = typeof ARRAY_DIRECTIVES[number];
+
+/**
+ * Raised when a config uses a merge directive incorrectly
+ */
+export class ConfigMergeError extends Error {
+  constructor(public jsonPath: string, message: string) {
+    super(`${message} at ${jsonPath || '(root)'}`);
+    this.name = 'ConfigMergeError';
+  }
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Return the directive if the value is a `{ "$append": [...] }`-style object
+ */
+function getArrayDirective(value: any): ArrayDirective | null {
+  if (!isPlainObject(value)) {
+    return null;
+  }
+  const keys = Object.keys(value);
+  const directive = keys.find((key): key is ArrayDirective => (ARRAY_DIRECTIVES as readonly string[]).includes(key));
+  return directive && keys.length === 1 ? directive : null;
+}
+
+/**
+ * Merge a child config value on top of an inherited one
+ */
+export function mergeConfigs(base: any, override: any, jsonPath: string = ''): any {
+  if (override === undefined) {
+    return base;
+  }
+
+  const directive = getArrayDirective(override);
+  if (directive) {
+    const items = override[directive];
+    if (!Array.isArray(items)) {
+      throw new ConfigMergeError(jsonPath, `"${directive}" must be an array`);
+    }
+    if (base !== undefined && !Array.isArray(base)) {
+      throw new ConfigMergeError(jsonPath, `"${directive}" used on a value that is not an array in the parent config`);
+    }
+    const inherited = base ?? [];
+    if (directive === '$append') {
+      return [...inherited, ...items];
+    }
+    if (directive === '$prepend') {
+      return [...items, ...inherited];
+    }
+    return items;
+  }
+
+  if (isPlainObject(base) && isPlainObject(override)) {
+    const result: Record<string, any> = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+      result[key] = mergeConfigs(base[key], value, jsonPath ? `${jsonPath}.${key}` : key);
+    }
+    return result;
+  }
+
+  if (isPlainObject(override)) {
+    // Nothing to merge with, but nested directives still need resolving
+    return mergeConfigs({}, override, jsonPath);
+  }
+
+  return override;
+}
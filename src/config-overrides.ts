@@ -0,0 +1,151 @@
+/**
+ * Command-line overrides applied on top of a resolved config (`--set path=value`, `--system-prompt-file`)
+ */
+
+import { readFileSync } from 'fs';
+import { z } from 'zod/v4';
+import { ChatConfig, ChatConfigSchema } from './types.js';
+import { findUnknownConfigKeys, formatSchemaIssues } from './config-schema.js';
+
+export interface ConfigOverrides {
+  set?: string[] | undefined;
+  systemPromptFile?: string | undefined;
+}
+
+/**
+ * Raised when an override is malformed or produces an invalid config
+ */
+export class ConfigOverrideError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigOverrideError';
+  }
+}
+
+// Keys that would reach Object.prototype instead of the config
+const FORBIDDEN_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Split a path like `config.mcp_servers[0].tools` into keys and array indices
+ */
+function parsePath(path: string): Array<string | number> {
+  const segments: Array<string | number> = [];
+  for (const part of path.split('.')) {
+    const match = /^([^[\]]*)((?:\[\d+\])*)$/.exec(part);
+    if (!match || (!match[1] && !match[2])) {
+      throw new ConfigOverrideError(`Invalid config path "${path}"`);
+    }
+    if (match[1]) {
+      if (FORBIDDEN_SEGMENTS.has(match[1])) {
+        throw new ConfigOverrideError(`Invalid config path "${path}": ${match[1]} cannot be set`);
+      }
+      segments.push(match[1]);
+    }
+    for (const index of (match[2] ?? '').matchAll(/\[(\d+)\]/g)) {
+      segments.push(Number(index[1]));
+    }
+  }
+  return segments;
+}
+
+/**
+ * Coerce a command-line value: booleans, null, numbers and JSON objects/arrays/strings
+ * are parsed, anything else is kept as a string
+ */
+export function coerceValue(raw: string): any {
+  const trimmed = raw.trim();
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  if (trimmed === 'null') return null;
+  if (trimmed !== '' && !isNaN(Number(trimmed))) return Number(trimmed);
+
+  if (/^[[{"]/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      // Not JSON - fall through to a plain string
+    }
+  }
+  return raw;
+}
+
+/**
+ * Set a value at a path, creating intermediate objects and arrays as needed
+ */
+function setPath(target: any, path: string, value: any): void {
+  const segments = parsePath(path);
+  let current = target;
+
+  segments.forEach((segment, i) => {
+    if (i === segments.length - 1) {
+      current[segment] = value;
+      return;
+    }
+
+    const next = segments[i + 1];
+    if (current[segment] === undefined || current[segment] === null) {
+      current[segment] = typeof next === 'number' ? [] : {};
+    } else if (typeof current[segment] !== 'object') {
+      throw new ConfigOverrideError(`Cannot set "${path}": ${segments.slice(0, i + 1).join('.')} is not an object`);
+    }
+    current = current[segment];
+  });
+}
+
+/**
+ * Set the system prompt wherever the config keeps chat-proxy settings
+ */
+function setSystemPrompt(config: any, prompt: string): void {
+  const targets = [config.config, config.actor?.initial_state?.config].filter(
+    target => target && typeof target === 'object'
+  );
+
+  if (targets.length === 0) {
+    setPath(config, 'actor.initial_state.config.system_prompt', prompt);
+    return;
+  }
+  for (const target of targets) {
+    target.system_prompt = prompt;
+  }
+}
+
+/**
+ * Apply command-line overrides to a config and re-validate the result
+ */
+export function applyConfigOverrides(config: ChatConfig, overrides: ConfigOverrides): ChatConfig {
+  const patched: any = structuredClone(config);
+
+  for (const spec of overrides.set ?? []) {
+    const separator = spec.indexOf('=');
+    if (separator <= 0) {
+      throw new ConfigOverrideError(`Invalid --set "${spec}" (expected path=value)`);
+    }
+    setPath(patched, spec.slice(0, separator).trim(), coerceValue(spec.slice(separator + 1)));
+  }
+
+  // Validation drops keys the schema doesn't know, so a misspelt --set would do nothing
+  const unknownBefore = new Set(findUnknownConfigKeys(config));
+  const unknown = findUnknownConfigKeys(patched).filter(key => !unknownBefore.has(key));
+  if (unknown.length > 0) {
+    throw new ConfigOverrideError(`Unknown config key${unknown.length === 1 ? '' : 's'} in --set: ${unknown.join(', ')}`);
+  }
+
+  if (overrides.systemPromptFile) {
+    let prompt: string;
+    try {
+      prompt = readFileSync(overrides.systemPromptFile, 'utf8');
+    } catch (error) {
+      throw new ConfigOverrideError(`Could not read system prompt file ${overrides.systemPromptFile}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    setSystemPrompt(patched, prompt.trimEnd());
+  }
+
+  try {
+    return ChatConfigSchema.parse(patched);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new ConfigOverrideError(`Overrides produce an invalid config:\n  ${formatSchemaIssues(error).join('\n  ')}`);
+    }
+    throw error;
+  }
+}
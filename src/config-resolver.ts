@@ -1,16 +1,34 @@
 import { readFileSync, existsSync, mkdirSync, writeFileSync, readdirSync } from 'fs';
-import { join, dirname } from 'path';
+import { join, dirname, resolve, isAbsolute } from 'path';
 import { homedir } from 'os';
 import chalk from 'chalk';
+import { z } from 'zod/v4';
 import { ChatConfig, ChatConfigSchema } from './types.js';
+import { interpolateConfig, createInterpolationContext, findProjectRoot, ConfigInterpolationError } from './config-interpolation.js';
+import { mergeConfigs, ConfigMergeError } from './config-merge.js';
+import { findUnknownConfigKeys, formatSchemaIssues } from './config-schema.js';
+import { getUserSettings, SETTINGS_FILE } from './settings.js';
+import { TRUST_FILE } from './trust.js';
+import { SECRETS_FILE } from './secrets.js';
+import { DEFAULT_TEMPLATE, getTemplate, renderTemplate, TemplateError } from './config-templates.js';
+import { CONFIG_EXTENSIONS, ConfigParseError, formatFromPath, parseConfigText, serializeConfig, stripConfigExtension } from './config-formats.js';
 
 export interface ConfigInfo {
   name: string;
   path: string;
   source: 'local' | 'global';
+  // Config directory (layer) the file was found in
+  dir: string;
   exists: boolean;
 }
 
+export interface DiscoveryOptions {
+  // Where the upward search for .theater-chat stops: the nearest .git directory or the filesystem root
+  boundary: 'git' | 'root';
+  // Use every .theater-chat found on the way up, closest first, instead of only the nearest
+  mergeLayers: boolean;
+}
+
 /**
  * Get XDG config directory or fallback to ~/.config
  */
@@ -21,36 +39,91 @@ function getConfigHome(): string {
 /**
  * Get the global config directory
  */
-function getGlobalConfigDir(): string {
+export function getGlobalConfigDir(): string {
   return join(getConfigHome(), 'theater-chat');
 }
 
 /**
- * Get the local config directory for current working directory
+ * Discovery settings (the `discovery` and `mergeLayers` settings, from env or global settings)
  */
-function getLocalConfigDir(): string {
-  return join(process.cwd(), '.theater-chat');
+export function getDiscoveryOptions(): DiscoveryOptions {
+  const { discovery, mergeLayers } = getUserSettings();
+  return { boundary: discovery, mergeLayers };
 }
 
 /**
- * Get all available configs (local and global)
+ * Find .theater-chat directories from the current directory upwards, closest first.
+ * The search includes the directory holding .git (or the filesystem root) and stops there.
  */
-export function listConfigs(): ConfigInfo[] {
-  const localDir = getLocalConfigDir();
-  const globalDir = getGlobalConfigDir();
-  const allConfigs: ConfigInfo[] = [];
+export function findLocalConfigDirs(options: DiscoveryOptions = getDiscoveryOptions()): string[] {
+  const dirs: string[] = [];
+  const globalDir = resolve(getGlobalConfigDir());
+  let dir = resolve(process.cwd());
+
+  while (true) {
+    const candidate = join(dir, '.theater-chat');
+    if (existsSync(candidate) && resolve(candidate) !== globalDir) {
+      dirs.push(candidate);
+      if (!options.mergeLayers) break;
+    }
 
-  // Scan local and global directories
-  if (existsSync(localDir)) {
-    scanDirectory(localDir, '', 'local', allConfigs);
+    const parent = dirname(dir);
+    if (parent === dir || (options.boundary === 'git' && existsSync(join(dir, '.git')))) {
+      break;
+    }
+    dir = parent;
   }
-  if (existsSync(globalDir)) {
-    scanDirectory(globalDir, '', 'global', allConfigs);
+
+  return dirs;
+}
+
+/**
+ * Get the project root: the directory holding the nearest .theater-chat, else the git root or the current directory
+ */
+export function getProjectRoot(): string {
+  const [nearest] = findLocalConfigDirs({ ...getDiscoveryOptions(), mergeLayers: false });
+  return nearest ? dirname(nearest) : findProjectRoot();
+}
+
+/**
+ * Get the local config directory new configs and saved sessions are written to
+ */
+export function getLocalConfigDir(): string {
+  return join(getProjectRoot(), '.theater-chat');
+}
+
+/**
+ * Config directories in lookup order: discovered local layers, then the global directory
+ */
+function getConfigLayers(): Array<{ dir: string; source: 'local' | 'global' }> {
+  return [
+    ...findLocalConfigDirs().map(dir => ({ dir, source: 'local' as const })),
+    { dir: getGlobalConfigDir(), source: 'global' as const }
+  ];
+}
+
+/**
+ * Get every config file, closest layer first, including configs shadowed by a closer one
+ */
+export function listConfigFiles(): ConfigInfo[] {
+  const allConfigs: ConfigInfo[] = [];
+
+  for (const { dir, source } of getConfigLayers()) {
+    if (existsSync(dir)) {
+      scanDirectory(dir, dir, '', source, allConfigs);
+    }
   }
 
-  // Deduplicate, giving precedence to local configs
+  return allConfigs;
+}
+
+/**
+ * Get all available configs (local and global)
+ */
+export function listConfigs(): ConfigInfo[] {
+  // Deduplicate, giving precedence to the closest layer
   const uniqueConfigs = new Map<string, ConfigInfo>();
-  for (const config of allConfigs) {
+  for (const config of listConfigFiles()) {
     if (!uniqueConfigs.has(config.name)) {
       uniqueConfigs.set(config.name, config);
     }
@@ -60,9 +133,22 @@ export function listConfigs(): ConfigInfo[] {
 }
 
 /**
- * Recursively scan directory for JSON configs and add them to a list
+ * Configs that exist in more than one format in the same directory (`review.json` and `review.yaml`),
+ * keyed by `<dir>:<name>` with the files found
+ */
+export function findAmbiguousConfigs(configs: ConfigInfo[]): Map<string, string[]> {
+  const files = new Map<string, string[]>();
+  for (const config of configs) {
+    const key = `${config.dir}:${config.name}`;
+    files.set(key, [...(files.get(key) ?? []), config.path]);
+  }
+  return new Map([...files].filter(([, paths]) => paths.length > 1));
+}
+
+/**
+ * Recursively scan directory for JSON, YAML and TOML configs and add them to a list
  */
-function scanDirectory(dir: string, prefix: string, source: 'local' | 'global', configs: ConfigInfo[]) {
+function scanDirectory(rootDir: string, dir: string, prefix: string, source: 'local' | 'global', configs: ConfigInfo[]) {
   if (!existsSync(dir)) return;
 
   try {
@@ -74,19 +160,28 @@ function scanDirectory(dir: string, prefix: string, source: 'local' | 'global',
         continue;
       }
 
+      // Saved sessions, settings, trust records and secrets live alongside configs but are managed by their own commands
+      if (!prefix && item.name === 'saved' && item.isDirectory()) {
+        continue;
+      }
+      if (!prefix && [SETTINGS_FILE, TRUST_FILE, SECRETS_FILE].includes(item.name)) {
+        continue;
+      }
+
       const fullPath = join(dir, item.name);
       if (item.isDirectory()) {
         const subPrefix = prefix ? `${prefix}/${item.name}` : item.name;
-        scanDirectory(fullPath, subPrefix, source, configs);
-      } else if (item.name.endsWith('.json')) {
+        scanDirectory(rootDir, fullPath, subPrefix, source, configs);
+      } else if (formatFromPath(item.name) && !item.name.endsWith('.schema.json')) {
         const configName = prefix
-          ? `${prefix}/${item.name.replace('.json', '')}`
-          : item.name.replace('.json', '');
+          ? `${prefix}/${stripConfigExtension(item.name)}`
+          : stripConfigExtension(item.name);
 
         configs.push({
           name: configName,
           path: fullPath,
           source: source,
+          dir: rootDir,
           exists: true
         });
       }
@@ -97,122 +192,246 @@ function scanDirectory(dir: string, prefix: string, source: 'local' | 'global',
   }
 }
 
+export interface InitOptions {
+  template?: string | undefined;
+  // Config name to write, defaults to the template's default name
+  name?: string | undefined;
+  params?: Record<string, string> | undefined;
+  force?: boolean | undefined;
+}
+
 /**
- * Initialize config directories with default configs
+ * Initialize config directories with a config rendered from a built-in template
  */
-export function initConfigs(target: 'local' | 'global' | 'both' = 'local'): void {
-  const defaultSonnetConfig = {
-    actor: {
-      manifest_path: "/Users/colinrozzi/work/actor-registry/chat-state-proxy/manifest.toml",
-      initial_state: {
-        config: {
-          model_proxy: {
-            manifest_path: "https://github.com/colinrozzi/anthropic-proxy/releases/latest/download/manifest.toml",
-            init_state: null,
-            model: "claude-sonnet-4-20250514",
-          },
-          temperature: 1,
-          max_tokens: 8192,
-          system_prompt: "You are a helpful programming assistant.",
-          title: "Sonnet Chat",
-          mcp_servers: []
-        }
-      }
-    }
-  };
+export function initConfigs(target: 'local' | 'global' | 'both' = 'local', options: InitOptions = {}): void {
+  const template = getTemplate(options.template ?? DEFAULT_TEMPLATE);
+  const config = renderTemplate(template, options.params);
 
-  if (target === 'local' || target === 'both') {
-    const localDir = getLocalConfigDir();
-    mkdirSync(localDir, { recursive: true });
-
-    const sonnetPath = join(localDir, 'sonnet.json');
-    if (!existsSync(sonnetPath)) {
-      writeFileSync(sonnetPath, JSON.stringify(defaultSonnetConfig, null, 2));
-      console.log(chalk.green(`✓ Created local config: ${sonnetPath}`));
-    } else {
-      console.log(chalk.yellow(`⚠ Local config already exists: ${sonnetPath}`));
-    }
+  const result = ChatConfigSchema.safeParse(config);
+  if (!result.success) {
+    throw new TemplateError(`Template ${template.name} produced an invalid config:\n  ${formatSchemaIssues(result.error).join('\n  ')}`);
   }
 
+  const fileName = configFileName(options.name ?? template.defaultName);
+  const { text } = serializeConfig(config, formatFromPath(fileName) ?? 'json');
+  const dirs: Array<['local' | 'global', string]> = [];
+  if (target === 'local' || target === 'both') {
+    dirs.push(['local', getLocalConfigDir()]);
+  }
   if (target === 'global' || target === 'both') {
-    const globalDir = getGlobalConfigDir();
-    mkdirSync(globalDir, { recursive: true });
+    dirs.push(['global', getGlobalConfigDir()]);
+  }
+
+  for (const [source, dir] of dirs) {
+    const label = source === 'local' ? 'Local' : 'Global';
+    const configPath = join(dir, fileName);
+    mkdirSync(dirname(configPath), { recursive: true });
 
-    const sonnetPath = join(globalDir, 'sonnet.json');
-    if (!existsSync(sonnetPath)) {
-      writeFileSync(sonnetPath, JSON.stringify(defaultSonnetConfig, null, 2));
-      console.log(chalk.green(`✓ Created global config: ${sonnetPath}`));
+    if (!existsSync(configPath) || options.force) {
+      writeFileSync(configPath, text);
+      console.log(chalk.green(`✓ Created ${source} config from ${template.name}: ${configPath}`));
     } else {
-      console.log(chalk.yellow(`⚠ Global config already exists: ${sonnetPath}`));
+      console.log(chalk.yellow(`⚠ ${label} config already exists: ${configPath} (use --force to overwrite)`));
     }
   }
 }
 
 /**
- * Get the saved chats directory (local only)
+ * Get the saved chats directory (local only, at the project root)
  */
-function getSavedChatsDir(): string {
+export function getSavedChatsDir(): string {
   return join(getLocalConfigDir(), 'saved');
 }
 
+export interface ResolvedConfig {
+  config: ChatConfig;
+  source: 'local' | 'global';
+  path: string;
+  // Files this config inherits from via `extends`, nearest parent first
+  inherits: string[];
+}
+
 /**
- * Generate a timestamp-based filename for saving chats
+ * Raised when an `extends` chain cannot be resolved (missing parent or cycle)
  */
-function generateTimestampFilename(): string {
-  const now = new Date();
-  const month = (now.getMonth() + 1).toString();
-  const day = now.getDate().toString();
-  const year = now.getFullYear().toString().slice(-2);
-  const hour = now.getHours().toString().padStart(2, '0');
-  const minute = now.getMinutes().toString().padStart(2, '0');
+export class ConfigInheritanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigInheritanceError';
+  }
+}
 
-  return `${month}-${day}-${year}-${hour}${minute}`;
+/**
+ * Raised when the nearest config with a name exists but can't be loaded, so that a config of
+ * the same name further out is not used in its place
+ */
+export class InvalidConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidConfigError';
+  }
 }
 
 /**
- * Save chat metadata to a timestamped file
+ * Raised when a config name matches files in more than one format in the same directory
  */
-export function autoSaveChatSession(chatMetadata: any): string {
-  const savedDir = getSavedChatsDir();
-  mkdirSync(savedDir, { recursive: true });
+export class ConfigAmbiguityError extends Error {
+  constructor(
+    public readonly configName: string,
+    public readonly paths: string[]
+  ) {
+    super(`Config "${configName}" is ambiguous, it matches ${paths.join(' and ')} (remove one, or give the extension)`);
+    this.name = 'ConfigAmbiguityError';
+  }
+}
 
-  const filename = generateTimestampFilename();
-  const savedPath = join(savedDir, `${filename}.json`);
+/**
+ * Normalize a config name to the file name it is written to (JSON unless it has another config extension)
+ */
+export function configFileName(configName: string): string {
+  return formatFromPath(configName) ? configName : `${configName}.json`;
+}
 
-  writeFileSync(savedPath, JSON.stringify(chatMetadata, null, 2));
-  console.log(chalk.green(`   Chat saved at: saved/${filename}`));
+/**
+ * Find the file for a config name in a directory. A name with an extension matches only that
+ * file; otherwise every config extension is tried and more than one match is an error.
+ */
+export function findConfigFile(dir: string, configName: string): string | null {
+  if (formatFromPath(configName)) {
+    const candidate = resolve(dir, configName);
+    return existsSync(candidate) ? candidate : null;
+  }
 
-  return filename;
+  const matches = CONFIG_EXTENSIONS
+    .map(extension => resolve(dir, `${configName}${extension}`))
+    .filter(candidate => existsSync(candidate));
+  if (matches.length > 1) {
+    throw new ConfigAmbiguityError(configName, matches);
+  }
+  return matches[0] ?? null;
 }
 
+/**
+ * Find a config file without loading it: a path to an existing config file, or a config
+ * name looked up closest layer first
+ */
+export function locateConfigFile(nameOrPath: string): { path: string; source: 'local' | 'global' | 'file' } | null {
+  if (formatFromPath(nameOrPath) && existsSync(nameOrPath)) {
+    return { path: resolve(nameOrPath), source: 'file' };
+  }
 
-export interface ResolvedConfig {
-  config: ChatConfig;
-  source: 'local' | 'global';
-  path: string;
+  for (const { dir, source } of getConfigLayers()) {
+    const path = findConfigFile(dir, nameOrPath);
+    if (path) {
+      return { path, source };
+    }
+  }
+  return null;
 }
 
-// Example function
-export function resolveConfigPath(configName: string): ResolvedConfig | null {
-  const localDir = getLocalConfigDir();
-  const globalDir = getGlobalConfigDir();
-  const fileName = configName.endsWith('.json') ? configName : `${configName}.json`;
+/**
+ * Find the file an `extends` value refers to. Relative paths (`./`, `../`) and absolute
+ * paths are taken as files; anything else is a config name looked up closest layer first,
+ * skipping the extending file itself so a config can extend a farther one of the same name.
+ */
+function resolveExtendsPath(reference: string, fromPath: string): string | null {
+  if (reference.startsWith('./') || reference.startsWith('../') || isAbsolute(reference)) {
+    return findConfigFile(dirname(fromPath), reference);
+  }
+
+  for (const { dir } of getConfigLayers()) {
+    const candidate = findConfigFile(dir, reference);
+    if (candidate && candidate !== resolve(fromPath)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Load a config file, interpolate its variables and merge it on top of its `extends` chain
+ */
+function loadConfigFile(path: string, chain: string[], inherits: string[]): any {
+  const absolutePath = resolve(path);
+  if (chain.includes(absolutePath)) {
+    throw new ConfigInheritanceError(`Config inheritance cycle: ${[...chain, absolutePath].join(' -> ')}`);
+  }
+
+  const parsed = interpolateConfig(parseConfigText(readFileSync(path, 'utf8'), path), createInterpolationContext(path));
+  const { extends: reference, $schema: _schema, ...overrides } = parsed ?? {};
+
+  let base: any = {};
+  if (reference !== undefined) {
+    if (typeof reference !== 'string') {
+      throw new ConfigInheritanceError(`"extends" must be a config name or path in ${path}`);
+    }
+    const parentPath = resolveExtendsPath(reference, path);
+    if (!parentPath) {
+      throw new ConfigInheritanceError(`Config "${reference}" extended by ${path} was not found`);
+    }
+    inherits.push(parentPath);
+    base = loadConfigFile(parentPath, [...chain, absolutePath], inherits);
+  }
 
+  try {
+    return mergeConfigs(base, overrides);
+  } catch (err) {
+    if (err instanceof ConfigMergeError) {
+      throw new ConfigInheritanceError(`${err.message} in ${path}`);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Load a config file with variables and `extends` resolved, before schema validation
+ */
+export function loadConfigChain(path: string): { merged: any; inherits: string[] } {
+  const inherits: string[] = [];
+  const merged = loadConfigFile(path, [], inherits);
+  return { merged, inherits };
+}
+
+/**
+ * Load a config by name (closest local layer first, then global), resolving variables and `extends`.
+ * Throws InvalidConfigError when the closest layer that has the config can't load it.
+ */
+export function resolveConfigPath(configName: string): ResolvedConfig | null {
   const tryLoad = (dir: string, source: 'local' | 'global'): ResolvedConfig | null => {
-    const fullPath = join(dir, fileName);
-    if (!existsSync(fullPath)) return null;
+    let fullPath: string | null;
     try {
-      const parsed = JSON.parse(readFileSync(fullPath, 'utf8'));
-      const config = ChatConfigSchema.parse(parsed);
-      return { config, source, path: fullPath };
+      fullPath = findConfigFile(dir, configName);
     } catch (err) {
-      console.error(chalk.red(`Invalid config at ${fullPath}: ${err}`));
-      return null;
+      if (err instanceof ConfigAmbiguityError) {
+        throw new InvalidConfigError(err.message);
+      }
+      throw err;
+    }
+    if (!fullPath) return null;
+    try {
+      const { merged, inherits } = loadConfigChain(fullPath);
+      const config = ChatConfigSchema.parse(merged);
+      for (const key of findUnknownConfigKeys(merged)) {
+        console.error(chalk.yellow(`⚠ Unknown config key ${key} in ${fullPath}`));
+      }
+      return { config, source, path: fullPath, inherits };
+    } catch (err) {
+      if (err instanceof ConfigInterpolationError || err instanceof ConfigInheritanceError ||
+        err instanceof ConfigParseError || err instanceof ConfigAmbiguityError) {
+        throw new InvalidConfigError(err.message);
+      }
+      if (err instanceof z.ZodError) {
+        throw new InvalidConfigError([`Invalid config at ${fullPath}:`, ...formatSchemaIssues(err).map(issue => `  ${issue}`)].join('\n'));
+      }
+      throw new InvalidConfigError(`Invalid config at ${fullPath}: ${err}`);
     }
   };
 
-
-  let result = tryLoad(localDir, 'local') || tryLoad(globalDir, 'global');
-
-  return result;
+  for (const { dir, source } of getConfigLayers()) {
+    const result = tryLoad(dir, source);
+    if (result) {
+      return result;
+    }
+  }
+  return null;
 }
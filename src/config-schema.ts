@@ -0,0 +1,135 @@
+/**
+ * Config validation helpers: readable schema errors, unknown-key warnings and JSON Schema export
+ */
+
+import { z } from 'zod/v4';
+import { ChatConfigSchema } from './types.js';
+
+/**
+ * Format a zod issue path as `config.mcp_servers[0].stdio`
+ */
+export function formatIssuePath(path: ReadonlyArray<PropertyKey>): string {
+  let result = '';
+  for (const segment of path) {
+    if (typeof segment === 'number') {
+      result += `[${segment}]`;
+    } else {
+      result += result ? `.${String(segment)}` : String(segment);
+    }
+  }
+  return result || '(root)';
+}
+
+/**
+ * One line per schema issue, prefixed with the path it applies to
+ */
+export function formatSchemaIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${formatIssuePath(issue.path)}: ${issue.message}`);
+}
+
+/**
+ * Whether an object schema keeps keys it does not list (z.looseObject)
+ */
+function isLooseObject(def: any): boolean {
+  return def.catchall !== undefined && def.catchall._zod.def.type !== 'never';
+}
+
+/**
+ * Collect the paths of keys the schema does not know about (they are dropped during parsing)
+ */
+function collectUnknownKeys(schema: z.ZodType, value: any, path: Array<string | number>, found: Array<Array<string | number>>): void {
+  const def = (schema as any)._zod.def;
+
+  switch (def.type) {
+    case 'optional':
+    case 'nullable':
+      if (value !== undefined && value !== null) {
+        collectUnknownKeys(def.innerType, value, path, found);
+      }
+      return;
+
+    case 'array':
+      if (Array.isArray(value)) {
+        value.forEach((item, index) => collectUnknownKeys(def.element, item, [...path, index], found));
+      }
+      return;
+
+    case 'union': {
+      // Check against the first option the value satisfies
+      const option = def.options.find((candidate: z.ZodType) => candidate.safeParse(value).success);
+      if (option) {
+        collectUnknownKeys(option, value, path, found);
+      }
+      return;
+    }
+
+    case 'object':
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        for (const [key, child] of Object.entries(value)) {
+          const childSchema = def.shape[key];
+          if (childSchema) {
+            collectUnknownKeys(childSchema, child, [...path, key], found);
+          } else if (!isLooseObject(def)) {
+            found.push([...path, key]);
+          }
+        }
+      }
+      return;
+  }
+}
+
+/**
+ * Find keys in a raw config that are not part of the config schema, e.g. `config.temprature`
+ */
+export function findUnknownConfigKeys(value: any): string[] {
+  const found: Array<Array<string | number>> = [];
+  collectUnknownKeys(ChatConfigSchema, value, [], found);
+  return found.map(formatIssuePath);
+}
+
+/**
+ * Build a JSON Schema for config files, for editor validation and autocomplete.
+ * Compared to the runtime schema it also allows `$schema`, `extends` and array merge
+ * directives, and `actor` may come from the extended config.
+ */
+export function buildConfigJsonSchema(): Record<string, any> {
+  const FileSchema = ChatConfigSchema.extend({
+    $schema: z.string().optional(),
+    extends: z.string().optional().describe('Config name or relative path to inherit from'),
+    actor: ChatConfigSchema.shape.actor.optional(),
+  });
+
+  const schema: Record<string, any> = z.toJSONSchema(FileSchema, {
+    io: 'input',
+    override: ({ jsonSchema }) => {
+      if (jsonSchema.type === 'object' && jsonSchema.properties && jsonSchema.additionalProperties === undefined) {
+        jsonSchema.additionalProperties = false;
+      }
+
+      if (jsonSchema.type === 'array') {
+        const { description, ...arraySchema } = jsonSchema;
+        for (const key of Object.keys(jsonSchema)) {
+          delete (jsonSchema as any)[key];
+        }
+        if (description) {
+          jsonSchema.description = description;
+        }
+        jsonSchema.anyOf = [
+          arraySchema,
+          ...['$append', '$prepend', '$replace'].map(directive => ({
+            type: 'object' as const,
+            properties: { [directive]: arraySchema },
+            required: [directive],
+            additionalProperties: false
+          }))
+        ];
+      }
+    }
+  });
+
+  return {
+    ...schema,
+    title: 'theater-chat config',
+    anyOf: [{ required: ['actor'] }, { required: ['extends'] }]
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * Built-in config templates for `theater-chat init --template`
+ *
+ * Templates are config objects with `{{param}}` placeholders that are filled in at init time.
+ * `${...}` variables are left alone and resolved when the config is loaded.
+ */
+
+export interface TemplateParameter {
+  description: string;
+  default: string;
+}
+
+export interface ConfigTemplate {
+  name: string;
+  description: string;
+  // Config name written when --name is not given
+  defaultName: string;
+  parameters: Record<string, TemplateParameter>;
+  config: Record<string, any>;
+}
+
+/**
+ * Raised for unknown templates and bad template parameters
+ */
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+/**
+ * Manifest of an actor in the local actor registry
+ */
+export function registryManifest(actor: string): string {
+  return `\${env:THEATER_ACTOR_REGISTRY:-\${home}/work/actor-registry}/${actor}/manifest.toml`;
+}
+
+const FS_MCP_SERVER = {
+  actor_id: null,
+  stdio: {
+    command: '${env:FS_MCP_SERVER:-${home}/work/mcp-servers/bin/fs-mcp-server}',
+    args: ['--allowed-dirs', '{{projectDir}}']
+  },
+  tools: null
+};
+
+const GIT_MCP_ACTOR = {
+  actor_id: null,
+  actor: { manifest_path: registryManifest('git-mcp-actor') },
+  tools: null
+};
+
+const PAIR_PROGRAMMER_PROMPT = 'You are pair programming with another developer. You both have access to the filesystem. Make sure you and your pair programmer come to a consensus on the best path forward before committing any changes to the project';
+
+const projectDir: TemplateParameter = {
+  description: 'Directory the tools may access',
+  default: '${projectRoot}'
+};
+
+function model(defaultModel: string): TemplateParameter {
+  return { description: 'Model name', default: defaultModel };
+}
+
+/**
+ * Pair programming config with filesystem access, optionally with git tools
+ */
+function pairProgrammer(provider: string, title: string, withGit: boolean): Record<string, any> {
+  return {
+    actor: { manifest_path: registryManifest('chat-proxy-example') },
+    config: {
+      model_config: { model: '{{model}}', provider },
+      temperature: 1.0,
+      max_tokens: 8192,
+      system_prompt: PAIR_PROGRAMMER_PROMPT,
+      title,
+      mcp_servers: withGit ? [FS_MCP_SERVER, GIT_MCP_ACTOR] : [FS_MCP_SERVER]
+    }
+  };
+}
+
+export const CONFIG_TEMPLATES: ConfigTemplate[] = [
+  {
+    name: 'anthropic-sonnet',
+    description: 'Claude Sonnet pair programmer with filesystem and git tools',
+    defaultName: 'sonnet',
+    parameters: { model: model('claude-sonnet-4-20250514'), projectDir },
+    config: pairProgrammer('anthropic', 'Sonnet 4 Session', true)
+  },
+  {
+    name: 'google-gemini-pro',
+    description: 'Gemini Pro pair programmer with filesystem and git tools',
+    defaultName: 'gemini-pro',
+    parameters: { model: model('gemini-2.5-pro-preview-06-05'), projectDir },
+    config: pairProgrammer('google', 'Gemini 2.5 Pro Session', true)
+  },
+  {
+    name: 'gemini-flash',
+    description: 'Gemini Flash pair programmer with filesystem tools',
+    defaultName: 'gemini-flash',
+    parameters: { model: model('gemini-2.5-flash-preview-05-20'), projectDir },
+    config: pairProgrammer('google', 'Gemini 2.5 Session', false)
+  },
+  {
+    name: 'pair-programmer-with-fs',
+    description: 'Pair programmer with filesystem tools, for any Anthropic model',
+    defaultName: 'pair-programmer',
+    parameters: { model: model('claude-sonnet-4-20250514'), projectDir },
+    config: pairProgrammer('anthropic', 'Pair Programming Session', false)
+  },
+  {
+    name: 'git-commit-workflow',
+    description: 'Git assistant that reviews changes and writes a commit',
+    defaultName: 'git-commit',
+    parameters: { projectDir: { description: 'Repository to commit in', default: '${projectRoot}' } },
+    config: {
+      actor: { manifest_path: registryManifest('git-chat-assistant') },
+      config: {
+        current_directory: '{{projectDir}}',
+        workflow: 'commit',
+        temperature: 0.3,
+        title: 'Auto-Commit'
+      }
+    }
+  },
+  {
+    name: 'chat',
+    description: 'Plain chat with no tools',
+    defaultName: 'chat',
+    parameters: { model: model('claude-sonnet-4-20250514') },
+    config: {
+      actor: { manifest_path: registryManifest('chat-proxy-example') },
+      config: {
+        model_config: { model: '{{model}}', provider: 'anthropic' },
+        temperature: 1.0,
+        max_tokens: 8192,
+        system_prompt: 'You are a helpful assistant.',
+        title: 'Chat',
+        mcp_servers: []
+      }
+    }
+  }
+];
+
+export const DEFAULT_TEMPLATE = 'anthropic-sonnet';
+
+/**
+ * Look up a template by name
+ */
+export function getTemplate(name: string): ConfigTemplate {
+  const template = CONFIG_TEMPLATES.find(t => t.name === name);
+  if (!template) {
+    throw new TemplateError(`Unknown template: ${name} (run \`theater-chat init --list-templates\` to see them)`);
+  }
+  return template;
+}
+
+/**
+ * Parse `name=value` template parameters
+ */
+export function parseTemplateParams(values: string[]): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const value of values) {
+    const separator = value.indexOf('=');
+    if (separator <= 0) {
+      throw new TemplateError(`Invalid template parameter "${value}" (expected name=value)`);
+    }
+    params[value.slice(0, separator)] = value.slice(separator + 1);
+  }
+  return params;
+}
+
+/**
+ * Fill a template's `{{param}}` placeholders, using defaults for parameters not given
+ */
+export function renderTemplate(template: ConfigTemplate, params: Record<string, string> = {}): Record<string, any> {
+  for (const name of Object.keys(params)) {
+    if (!template.parameters[name]) {
+      const known = Object.keys(template.parameters);
+      throw new TemplateError(
+        `Template ${template.name} has no parameter "${name}"` +
+        (known.length > 0 ? ` (parameters: ${known.join(', ')})` : ' (it takes no parameters)')
+      );
+    }
+  }
+
+  const values: Record<string, string> = {};
+  for (const [name, parameter] of Object.entries(template.parameters)) {
+    values[name] = params[name] ?? parameter.default;
+  }
+
+  const fill = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return value.replace(/\{\{(\w+)\}\}/g, (match, name: string) => values[name] ?? match);
+    }
+    if (Array.isArray(value)) {
+      return value.map(fill);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, fill(child)]));
+    }
+    return value;
+  };
+
+  return fill(template.config) as Record<string, any>;
+}
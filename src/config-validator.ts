@@ -0,0 +1,343 @@
+/**
+ * Config linting for `theater-chat validate`
+ *
+ * Goes beyond loading: schema errors are mapped back to file:line, and the paths a
+ * config points at (manifests, MCP server binaries, --allowed-dirs) are checked on disk.
+ */
+
+import { accessSync, constants, existsSync, readFileSync, statSync } from 'fs';
+import { delimiter, isAbsolute, join, resolve } from 'path';
+import { loadConfigChain, type ConfigInfo } from './config-resolver.js';
+import { ConfigInterpolationError } from './config-interpolation.js';
+import { findUnknownConfigKeys, formatIssuePath } from './config-schema.js';
+import { ChatConfigSchema } from './types.js';
+import { ConfigParseError, formatFromPath, locateTomlPaths, locateYamlPaths, parseConfigText } from './config-formats.js';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface ConfigDiagnostic {
+  severity: DiagnosticSeverity;
+  file: string;
+  line?: number | undefined;
+  path?: string | undefined;
+  message: string;
+}
+
+export interface ConfigValidationResult {
+  name: string;
+  source: 'local' | 'global';
+  path: string;
+  diagnostics: ConfigDiagnostic[];
+}
+
+/**
+ * Map every JSON path in a document (formatted like `config.mcp_servers[0]`) to the line it starts on.
+ * The text is assumed to be valid JSON.
+ */
+function locateJsonPaths(text: string): Map<string, number> {
+  const lines = new Map<string, number>([['(root)', 1]]);
+  let pos = 0;
+  let line = 1;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos]!)) {
+      if (text[pos] === '\n') line++;
+      pos++;
+    }
+  };
+
+  const readString = (): string => {
+    let end = pos + 1;
+    while (end < text.length && text[end] !== '"') {
+      end += text[end] === '\\' ? 2 : 1;
+    }
+    const value = JSON.parse(text.slice(pos, end + 1));
+    pos = end + 1;
+    return value;
+  };
+
+  const parseValue = (path: Array<string | number>): void => {
+    skipWhitespace();
+    const open = text[pos];
+
+    if (open === '{' || open === '[') {
+      const close = open === '{' ? '}' : ']';
+      pos++;
+      skipWhitespace();
+      let index = 0;
+      while (pos < text.length && text[pos] !== close) {
+        skipWhitespace();
+        let childPath: Array<string | number>;
+        if (open === '{') {
+          const keyLine = line;
+          childPath = [...path, readString()];
+          lines.set(formatIssuePath(childPath), keyLine);
+          skipWhitespace();
+          pos++; // ':'
+        } else {
+          skipWhitespace();
+          childPath = [...path, index++];
+          lines.set(formatIssuePath(childPath), line);
+        }
+        parseValue(childPath);
+        skipWhitespace();
+        if (text[pos] === ',') pos++;
+      }
+      pos++;
+    } else if (open === '"') {
+      readString();
+    } else {
+      while (pos < text.length && !/[,\]}\s]/.test(text[pos]!)) pos++;
+    }
+  };
+
+  try {
+    parseValue([]);
+  } catch {
+    // Best effort: keep whatever was located before the failure
+  }
+  return lines;
+}
+
+/**
+ * Map config paths to source lines in a JSON, YAML or TOML file
+ */
+function locateConfigPaths(text: string, file: string): Map<string, number> {
+  switch (formatFromPath(file)) {
+    case 'yaml': return locateYamlPaths(text);
+    case 'toml': return locateTomlPaths(text);
+    default: return locateJsonPaths(text);
+  }
+}
+
+/**
+ * Find which file of an `extends` chain defines a path, and on which line.
+ * Falls back to the nearest enclosing path in the config itself.
+ */
+function createLocator(files: string[]): (path: string) => { file: string; line?: number | undefined } {
+  const cache = new Map<string, Map<string, number>>();
+  const locationsFor = (file: string) => {
+    let locations = cache.get(file);
+    if (!locations) {
+      try {
+        locations = locateConfigPaths(readFileSync(file, 'utf8'), file);
+      } catch {
+        locations = new Map();
+      }
+      cache.set(file, locations);
+    }
+    return locations;
+  };
+
+  return (path: string) => {
+    for (const file of files) {
+      const line = locationsFor(file).get(path);
+      if (line !== undefined) {
+        return { file, line };
+      }
+    }
+
+    const file = files[0]!;
+    const locations = locationsFor(file);
+    let parent = path;
+    while (!locations.has(parent)) {
+      const shorter = parent.replace(/(\.[^.[\]]+|\[\d+\])$/, '');
+      parent = shorter === parent ? '(root)' : shorter;
+    }
+    return { file, line: locations.get(parent) };
+  };
+}
+
+function isUrl(value: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(value);
+}
+
+/**
+ * Check whether a command resolves to an executable file, searching PATH for bare names
+ */
+export function findExecutable(command: string): { found: boolean; executable: boolean } {
+  const candidates = command.includes('/') || isAbsolute(command)
+    ? [resolve(command)]
+    : (process.env.PATH || '').split(delimiter).filter(Boolean).map(dir => join(dir, command));
+
+  let found = false;
+  for (const candidate of candidates) {
+    if (!existsSync(candidate) || !statSync(candidate).isFile()) {
+      continue;
+    }
+    found = true;
+    try {
+      accessSync(candidate, constants.X_OK);
+      return { found, executable: true };
+    } catch {
+      // Keep looking for an executable match
+    }
+  }
+  return { found, executable: false };
+}
+
+/**
+ * Directories passed to an MCP server as `--allowed-dirs a,b` or `--allowed-dirs=a,b`
+ */
+function allowedDirs(args: unknown[]): Array<{ index: number; dirs: string[] }> {
+  const result: Array<{ index: number; dirs: string[] }> = [];
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (arg === '--allowed-dirs' && typeof args[index + 1] === 'string') {
+      index++;
+      result.push({ index, dirs: splitDirs(args[index] as string) });
+    } else if (typeof arg === 'string' && arg.startsWith('--allowed-dirs=')) {
+      result.push({ index, dirs: splitDirs(arg.slice('--allowed-dirs='.length)) });
+    }
+  }
+  return result;
+}
+
+function splitDirs(value: string): string[] {
+  return value.split(',').map(dir => dir.trim()).filter(Boolean);
+}
+
+/**
+ * MCP servers declared in a config, either in the top-level `config` or in the actor's initial state
+ */
+export function collectMcpServers(config: any): Array<{ path: string; server: any }> {
+  const serverLists: Array<[string, unknown]> = [
+    ['config.mcp_servers', config?.config?.mcp_servers],
+    ['actor.initial_state.config.mcp_servers', config?.actor?.initial_state?.config?.mcp_servers]
+  ];
+
+  return serverLists.flatMap(([listPath, servers]) =>
+    Array.isArray(servers) ? servers.map((server, i) => ({ path: `${listPath}[${i}]`, server })) : []
+  );
+}
+
+/**
+ * Check the manifests, binaries and directories a resolved config refers to
+ */
+function checkReferencedPaths(config: any): Array<{ path: string; message: string }> {
+  const problems: Array<{ path: string; message: string }> = [];
+
+  const checkManifest = (value: unknown, path: string) => {
+    if (typeof value === 'string' && !isUrl(value) && !existsSync(resolve(value))) {
+      problems.push({ path, message: `Manifest not found: ${value}` });
+    }
+  };
+
+  checkManifest(config?.actor?.manifest_path, 'actor.manifest_path');
+
+  for (const { path: serverPath, server } of collectMcpServers(config)) {
+    checkManifest(server?.actor?.manifest_path, `${serverPath}.actor.manifest_path`);
+
+    const command = server?.stdio?.command;
+    if (typeof command === 'string') {
+      const { found, executable } = findExecutable(command);
+      if (!found) {
+        problems.push({ path: `${serverPath}.stdio.command`, message: `MCP server command not found: ${command}` });
+      } else if (!executable) {
+        problems.push({ path: `${serverPath}.stdio.command`, message: `MCP server command is not executable: ${command}` });
+      }
+    }
+
+    const args = server?.stdio?.args;
+    if (Array.isArray(args)) {
+      for (const { index, dirs } of allowedDirs(args)) {
+        for (const dir of dirs) {
+          if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+            problems.push({ path: `${serverPath}.stdio.args[${index}]`, message: `Allowed directory does not exist: ${dir}` });
+          }
+        }
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Validate a single config file
+ */
+function validateConfigFile(info: ConfigInfo): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = [];
+  const add = (severity: DiagnosticSeverity, message: string, location: { file: string; line?: number | undefined }, path?: string) => {
+    diagnostics.push({ severity, message, file: location.file, line: location.line, path });
+  };
+
+  // Syntax first, so errors point at the right line
+  let text = '';
+  try {
+    text = readFileSync(info.path, 'utf8');
+    parseConfigText(text, info.path);
+  } catch (error) {
+    if (error instanceof ConfigParseError) {
+      add('error', `Invalid ${formatFromPath(info.path)?.toUpperCase() ?? 'JSON'}: ${error.reason}`, { file: info.path, line: error.line });
+    } else {
+      add('error', error instanceof Error ? error.message : String(error), { file: info.path });
+    }
+    return diagnostics;
+  }
+
+  let merged: any;
+  let locate: ReturnType<typeof createLocator>;
+  try {
+    const chain = loadConfigChain(info.path);
+    merged = chain.merged;
+    locate = createLocator([info.path, ...chain.inherits]);
+  } catch (error) {
+    if (error instanceof ConfigInterpolationError) {
+      const line = createLocator([error.configPath])(error.jsonPath).line;
+      add('error', error.message, { file: error.configPath, line }, error.jsonPath);
+    } else {
+      add('error', error instanceof Error ? error.message : String(error), { file: info.path, line: 1 });
+    }
+    return diagnostics;
+  }
+
+  const parsed = ChatConfigSchema.safeParse(merged);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      const path = formatIssuePath(issue.path);
+      add('error', `${path}: ${issue.message}`, locate(path), path);
+    }
+    return diagnostics;
+  }
+
+  for (const path of findUnknownConfigKeys(merged)) {
+    add('warning', `Unknown config key ${path}`, locate(path), path);
+  }
+
+  for (const problem of checkReferencedPaths(merged)) {
+    add('error', problem.message, locate(problem.path), problem.path);
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Validate configs, also reporting names where a closer config shadows a farther one
+ */
+export function validateConfigs(configs: ConfigInfo[], allConfigFiles: ConfigInfo[]): ConfigValidationResult[] {
+  return configs.map(info => {
+    const diagnostics = validateConfigFile(info);
+
+    // allConfigFiles is ordered closest layer first, so earlier files shadow later ones
+    const position = allConfigFiles.findIndex(other => other.path === info.path);
+    allConfigFiles.forEach((other, index) => {
+      if (other.name !== info.name || other.path === info.path) return;
+      if (other.dir === info.dir) {
+        diagnostics.push({
+          severity: 'error',
+          file: info.path,
+          line: 1,
+          message: `Ambiguous config name: ${other.path} has the same name (remove one, or refer to it with its extension)`
+        });
+        return;
+      }
+      const message = position === -1 || position < index
+        ? `Shadows ${other.source} config ${other.path}`
+        : `Shadowed by ${other.source} config ${other.path}`;
+      diagnostics.push({ severity: 'warning', file: info.path, line: 1, message });
+    });
+
+    return { name: info.name, source: info.source, path: info.path, diagnostics };
+  });
+}
@@ -0,0 +1,249 @@
+/**
+ * Environment diagnostics for `theater-chat doctor`
+ */
+
+import { connect } from 'net';
+import { existsSync } from 'fs';
+import type { Actor, ChannelStream } from 'theater-client';
+import { TheaterChatClient } from './theater-client.js';
+import {
+  findLocalConfigDirs,
+  getDiscoveryOptions,
+  getGlobalConfigDir,
+  getLocalConfigDir,
+  listConfigFiles,
+  resolveConfigPath,
+  InvalidConfigError,
+  type ResolvedConfig
+} from './config-resolver.js';
+import { collectMcpServers, findExecutable } from './config-validator.js';
+import { getTrustStatus } from './trust.js';
+import { getServerAddress } from './enhanced-error-parser.js';
+import type { ChatConfig, CLIOptions } from './types.js';
+
+export type CheckStatus = 'ok' | 'warn' | 'fail' | 'skip';
+
+export interface DoctorCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+// How long each network step may take before it is reported as failed
+const STEP_TIMEOUT_MS = 10000;
+
+/**
+ * Reject if a promise does not settle within the step timeout
+ */
+function withTimeout<T>(promise: Promise<T>, what: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${what} timed out after ${STEP_TIMEOUT_MS / 1000}s`)), STEP_TIMEOUT_MS);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message.split('\n')[0]! : String(error);
+}
+
+/**
+ * Open a TCP connection to the server and measure how long it takes
+ */
+function measureTcpLatency(host: string, port: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const socket = connect({ host, port });
+    socket.setTimeout(STEP_TIMEOUT_MS);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(Date.now() - started);
+    });
+    socket.once('timeout', () => {
+      socket.destroy();
+      reject(new Error(`connection timed out after ${STEP_TIMEOUT_MS / 1000}s`));
+    });
+    socket.once('error', (error) => {
+      socket.destroy();
+      reject(error);
+    });
+  });
+}
+
+function checkConfigDirectories(): DoctorCheck {
+  const localDirs = findLocalConfigDirs();
+  const globalDir = getGlobalConfigDir();
+  const configs = listConfigFiles();
+  const count = (dir: string) => configs.filter(config => config.dir === dir).length;
+
+  const { boundary, mergeLayers } = getDiscoveryOptions();
+  const xdg = process.env.XDG_CONFIG_HOME ? `XDG_CONFIG_HOME=${process.env.XDG_CONFIG_HOME}` : 'XDG_CONFIG_HOME unset';
+  const local = localDirs.length > 0
+    ? localDirs.map(dir => `${dir} (${count(dir)} configs)`).join(', ')
+    : `none found (searched up to the ${boundary === 'git' ? 'git root' : 'filesystem root'}; new configs go to ${getLocalConfigDir()})`;
+  const global = existsSync(globalDir) ? `${globalDir} (${count(globalDir)} configs)` : `${globalDir} (missing)`;
+
+  return {
+    name: 'Config directories',
+    status: configs.length > 0 ? 'ok' : 'warn',
+    detail: `local: ${local}; global: ${global}; ${mergeLayers ? 'merging layers; ' : ''}${xdg}`
+  };
+}
+
+function checkTerminal(): DoctorCheck {
+  const supported = process.stdin.isTTY === true && typeof process.stdin.setRawMode === 'function';
+  return {
+    name: 'Terminal raw mode',
+    status: supported ? 'ok' : 'warn',
+    detail: supported
+      ? 'supported'
+      : 'not supported (stdin is not a TTY) - the interactive UI needs a terminal; `theater-chat run` works without one'
+  };
+}
+
+/**
+ * Check MCP server commands in a config resolve to executables
+ */
+function checkMcpServers(config: any): DoctorCheck[] {
+  return collectMcpServers(config)
+    .filter(({ server }) => typeof server?.stdio?.command === 'string')
+    .map(({ path, server }) => {
+      const command: string = server.stdio.command;
+      const { found, executable } = findExecutable(command);
+      return {
+        name: `MCP server ${path}`,
+        status: found && executable ? 'ok' : 'fail',
+        detail: found ? (executable ? command : `${command} is not executable`) : `${command} not found`
+      };
+    });
+}
+
+/**
+ * Run all checks. Actor checks need a reachable server and a config name.
+ */
+export async function runDoctor(configName: string | undefined, options: CLIOptions): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+  await checkServerAndActor(checks, configName, options);
+  checks.push(checkConfigDirectories(), checkTerminal());
+  return checks;
+}
+
+/**
+ * Server reachability, then (with a config) actor startup, GetChatStateActorId, the channel and MCP servers
+ */
+async function checkServerAndActor(checks: DoctorCheck[], configName: string | undefined, options: CLIOptions): Promise<void> {
+  const serverAddress = getServerAddress(options);
+  const [host = '127.0.0.1', port = '9000'] = serverAddress.split(':');
+
+  // Server reachability
+  let serverReachable = false;
+  try {
+    const latency = await measureTcpLatency(host, parseInt(port) || 9000);
+    serverReachable = true;
+    checks.push({ name: 'Theater server', status: 'ok', detail: `${serverAddress} reachable (${latency} ms)` });
+  } catch (error) {
+    checks.push({
+      name: 'Theater server',
+      status: 'fail',
+      detail: `${serverAddress} unreachable: ${errorMessage(error)} - start it with \`theater-server\` or pass --server`
+    });
+  }
+
+  const client = new TheaterChatClient(serverAddress, options.verbose || false);
+  if (serverReachable) {
+    try {
+      const started = Date.now();
+      const actors = await withTimeout(client.getRawClient().listActorsRaw(), 'Listing actors');
+      checks.push({
+        name: 'Theater protocol',
+        status: 'ok',
+        detail: `answered in ${Date.now() - started} ms (${actors.length} actors running)`
+      });
+    } catch (error) {
+      serverReachable = false;
+      checks.push({ name: 'Theater protocol', status: 'fail', detail: errorMessage(error) });
+    }
+  }
+
+  if (!configName) {
+    checks.push({ name: 'Config', status: 'skip', detail: 'pass a config name to test actor startup and MCP servers' });
+    return;
+  }
+
+  let resolved: ResolvedConfig | null;
+  try {
+    resolved = resolveConfigPath(configName);
+  } catch (error) {
+    if (error instanceof InvalidConfigError) {
+      checks.push({ name: 'Config', status: 'fail', detail: error.message });
+      return;
+    }
+    throw error;
+  }
+  if (!resolved) {
+    checks.push({ name: 'Config', status: 'fail', detail: `${configName} not found` });
+    return;
+  }
+  checks.push({ name: 'Config', status: 'ok', detail: `${configName} (${resolved.source}, ${resolved.path})` });
+
+  const trust = getTrustStatus(resolved);
+  if (trust === 'untrusted' || trust === 'changed') {
+    checks.push({
+      name: 'Trust',
+      status: 'warn',
+      detail: `${trust === 'changed' ? 'changed since it was trusted' : 'not trusted'} - run \`theater-chat trust ${configName}\` to approve it`
+    });
+    checks.push({ name: 'Actor startup', status: 'skip', detail: 'config is not trusted' });
+  } else if (!serverReachable) {
+    checks.push({ name: 'Actor startup', status: 'skip', detail: 'Theater server is not responding' });
+  } else {
+    await checkActor(checks, client, resolved.config);
+  }
+
+  checks.push(...checkMcpServers(resolved.config));
+}
+
+/**
+ * Start the config's actor, ask what it supports and for the chat actor, and open a channel, then clean up
+ */
+async function checkActor(checks: DoctorCheck[], client: TheaterChatClient, config: ChatConfig): Promise<void> {
+  let actor: Actor | null = null;
+  let channel: ChannelStream | null = null;
+  let step = 'Actor startup';
+  try {
+    const started = Date.now();
+    actor = await withTimeout(
+      client.startDomainActor(config.actor.manifest_path, config.actor.initial_state),
+      'Starting actor'
+    );
+    checks.push({ name: step, status: 'ok', detail: `${actor.id} started in ${Date.now() - started} ms` });
+
+    step = 'Describe';
+
+    const capabilities = await withTimeout(client.describe(actor), 'Describe');
+    checks.push(capabilities.name
+      ? { name: step, status: 'ok', detail: `${capabilities.name} ${capabilities.version} (${[...capabilities.requests].join(', ')})` }
+      : { name: step, status: 'warn', detail: `not supported - assuming the actor handles only ${[...capabilities.requests].join(', ')}` });
+
+    step = 'GetChatStateActorId';
+
+    const chatActorId = await withTimeout(client.getChatStateActorId(actor), 'GetChatStateActorId');
+    checks.push({ name: step, status: 'ok', detail: chatActorId });
+
+    step = 'Channel';
+
+    channel = await withTimeout(client.openChannelStream(chatActorId), 'Opening channel');
+    checks.push({ name: step, status: 'ok', detail: 'opened' });
+  } catch (error) {
+    checks.push({ name: step, status: 'fail', detail: errorMessage(error) });
+  } finally {
+    try {
+      channel?.close();
+      if (actor) {
+        await withTimeout(client.stopActor(actor), 'Stopping actor');
+      }
+    } catch {
+      // Cleanup failures don't change the diagnosis
+    }
+  }
+}
@@ -3,6 +3,7 @@
  */
 
 import { formatActorError } from './error-parser.js';
+import { getSettings } from './settings.js';
 
 /**
  * Checks if an error is related to Theater server connection issues
@@ -33,13 +34,14 @@ If you have theater-server installed, run:
 If you do not have it installed, install it with:
   cargo install theater-server-cli theater-cli
 
-For more information, visit: https://github.com/colinrozzi/theater`;
+For more information, visit: https://github.com/colinrozzi/theater
+Run \`theater-chat doctor\` to check the rest of your setup.`;
 }
 
 /**
  * Enhanced error formatter that provides better messages for connection issues
  */
-export function formatTheaterError(error: any, serverAddress: string = '127.0.0.1:9000'): string {
+export function formatTheaterError(error: any, serverAddress: string = getServerAddress({})): string {
   // Check if this is a Theater connection error
   if (isTheaterConnectionError(error)) {
     return formatTheaterConnectionError(serverAddress);
@@ -57,8 +59,8 @@ export function shouldExitOnError(error: any): boolean {
 }
 
 /**
- * Utility function to extract server address from options
+ * Utility function to extract server address from options, falling back to the `server` setting
  */
-export function getServerAddress(options: { server?: string }): string {
-  return options.server || '127.0.0.1:9000';
+export function getServerAddress(options: { server?: string | undefined }): string {
+  return options.server || getSettings().server;
 }
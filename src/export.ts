@@ -0,0 +1,287 @@
+/**
+ * Render chat transcripts to Markdown, HTML or JSON for sharing outside the terminal
+ */
+
+import { INTERRUPTED_STOP_REASON, type DecodedBlock, type DecodedChatMessage } from './message-parser.js';
+import { getSessionHistory, type SavedSessionInfo } from './saved-sessions.js';
+import { redactSecrets } from './secrets.js';
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'html', 'json'];
+
+export interface ExportDocument {
+  title: string;
+  sessionName?: string | undefined;
+  model?: string | undefined;
+  messages: DecodedChatMessage[];
+}
+
+type ToolUseBlock = Extract<DecodedBlock, { kind: 'tool_use' }>;
+type ToolResultBlock = Extract<DecodedBlock, { kind: 'tool_result' }>;
+
+/**
+ * File extension for an export format
+ */
+export function exportExtension(format: ExportFormat): string {
+  return format === 'markdown' ? 'md' : format;
+}
+
+/**
+ * Parse a user-supplied format name, accepting `md` as an alias for markdown
+ */
+export function parseExportFormat(value: string): ExportFormat | null {
+  const normalized = value.toLowerCase();
+  if (normalized === 'md') {
+    return 'markdown';
+  }
+  return (EXPORT_FORMATS as string[]).includes(normalized) ? normalized as ExportFormat : null;
+}
+
+/**
+ * Build an export document from a saved session and its transcript
+ */
+export function buildSessionExport(session: SavedSessionInfo): ExportDocument {
+  return {
+    title: session.title || session.name,
+    sessionName: session.name,
+    model: session.model,
+    // Transcripts written before redaction was added may still hold secrets
+    messages: redactSecrets(getSessionHistory(session))
+  };
+}
+
+/**
+ * Render a document in the requested format
+ */
+export function renderExport(document: ExportDocument, format: ExportFormat): string {
+  switch (format) {
+    case 'markdown':
+      return renderMarkdown(document);
+    case 'html':
+      return renderHtml(document);
+    case 'json':
+      return renderJson(document);
+  }
+}
+
+/**
+ * Role heading for a message
+ */
+function roleHeading(message: DecodedChatMessage): string {
+  if (message.role === 'user') {
+    return 'User';
+  }
+  return message.stopReason === INTERRUPTED_STOP_REASON ? 'Assistant (interrupted)' : 'Assistant';
+}
+
+/**
+ * Pretty-print tool input or result content, returning the text and a fence language
+ */
+function formatToolPayload(value: unknown): { text: string; language: string } {
+  if (typeof value === 'string') {
+    try {
+      return { text: JSON.stringify(JSON.parse(value), null, 2), language: 'json' };
+    } catch {
+      return { text: value, language: 'text' };
+    }
+  }
+  return { text: JSON.stringify(value ?? null, null, 2), language: 'json' };
+}
+
+/**
+ * Text shown for a tool result, including undecodable binary content
+ */
+function toolResultText(block: ToolResultBlock): string {
+  return block.content ?? `[${block.byteLength} bytes of binary data]`;
+}
+
+/**
+ * Build a Markdown code fence longer than any backtick run inside the content
+ */
+function fence(text: string, language: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const marker = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+/**
+ * Tool input for display, using the decoded text when the whole input was a byte array
+ */
+function toolInput(block: ToolUseBlock): unknown {
+  return Array.isArray(block.input) && typeof block.input[0] === 'number' ? block.args[0] : block.input;
+}
+
+function renderMarkdownToolUse(block: ToolUseBlock): string {
+  const payload = formatToolPayload(toolInput(block));
+  return `<details>\n<summary>Tool use: <code>${escapeHtml(block.name)}</code></summary>\n\n${fence(payload.text, payload.language)}\n\n</details>`;
+}
+
+function renderMarkdownToolResult(block: ToolResultBlock): string {
+  const payload = formatToolPayload(toolResultText(block));
+  const label = block.isError ? 'Tool error' : 'Tool result';
+  return `<details>\n<summary>${label}</summary>\n\n${fence(payload.text, payload.language)}\n\n</details>`;
+}
+
+/**
+ * Render a transcript as Markdown with collapsible tool sections
+ */
+function renderMarkdown(document: ExportDocument): string {
+  const lines: string[] = [`# ${document.title}`, ''];
+
+  const details = [
+    document.sessionName ? `Session: \`${document.sessionName}\`` : null,
+    document.model ? `Model: \`${document.model}\`` : null,
+    `Exported: ${new Date().toISOString()}`
+  ].filter(Boolean);
+  lines.push(`_${details.join(' · ')}_`, '');
+
+  for (const message of document.messages) {
+    lines.push(`## ${roleHeading(message)}`, '');
+    for (const block of message.blocks) {
+      if (block.kind === 'text') {
+        lines.push(block.text, '');
+      } else if (block.kind === 'tool_use') {
+        lines.push(renderMarkdownToolUse(block), '');
+      } else {
+        lines.push(renderMarkdownToolResult(block), '');
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Escape text for inclusion in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render message text as HTML, turning fenced code blocks into <pre> and the rest into paragraphs
+ */
+function renderHtmlText(text: string): string {
+  const parts: string[] = [];
+  const fencePattern = /```([\w-]*)\n([\s\S]*?)```/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const pushProse = (prose: string) => {
+    for (const paragraph of prose.split(/\n{2,}/)) {
+      if (paragraph.trim()) {
+        parts.push(`<p>${escapeHtml(paragraph.trim()).replace(/\n/g, '<br>')}</p>`);
+      }
+    }
+  };
+
+  while ((match = fencePattern.exec(text)) !== null) {
+    pushProse(text.slice(lastIndex, match.index));
+    const language = match[1] ? ` class="language-${escapeHtml(match[1])}"` : '';
+    parts.push(`<pre><code${language}>${escapeHtml(match[2] ?? '')}</code></pre>`);
+    lastIndex = match.index + match[0].length;
+  }
+  pushProse(text.slice(lastIndex));
+
+  return parts.join('\n');
+}
+
+function renderHtmlDetails(summary: string, payload: { text: string; language: string }, isError = false): string {
+  return `<details${isError ? ' class="error"' : ''}><summary>${summary}</summary>` +
+    `<pre><code class="language-${payload.language}">${escapeHtml(payload.text)}</code></pre></details>`;
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; line-height: 1.5; }
+header { border-bottom: 1px solid #d0d7de; margin-bottom: 1.5rem; }
+header p { color: #656d76; font-size: 0.9rem; }
+section { margin-bottom: 1.5rem; }
+section h2 { font-size: 1rem; margin: 0 0 0.5rem; }
+section.user h2 { color: #1a7f37; }
+section.assistant h2 { color: #0969da; }
+pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; border-radius: 6px; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.85rem; }
+details { margin: 0.5rem 0; border: 1px solid #d0d7de; border-radius: 6px; padding: 0.25rem 0.75rem; }
+details.error { border-color: #cf222e; }
+summary { cursor: pointer; color: #656d76; }
+`;
+
+/**
+ * Render a transcript as a single self-contained HTML file
+ */
+function renderHtml(document: ExportDocument): string {
+  const sections = document.messages.map(message => {
+    const body = message.blocks.map(block => {
+      if (block.kind === 'text') {
+        return renderHtmlText(block.text);
+      } else if (block.kind === 'tool_use') {
+        return renderHtmlDetails(`Tool use: <code>${escapeHtml(block.name)}</code>`, formatToolPayload(toolInput(block)));
+      } else {
+        return renderHtmlDetails(block.isError ? 'Tool error' : 'Tool result',
+          formatToolPayload(toolResultText(block)), block.isError);
+      }
+    }).join('\n');
+
+    return `<section class="${message.role}">\n<h2>${roleHeading(message)}</h2>\n${body}\n</section>`;
+  });
+
+  const details = [
+    document.sessionName ? `Session: <code>${escapeHtml(document.sessionName)}</code>` : null,
+    document.model ? `Model: <code>${escapeHtml(document.model)}</code>` : null,
+    `Exported: ${new Date().toISOString()}`
+  ].filter(Boolean).join(' · ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(document.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(document.title)}</h1>
+<p>${details}</p>
+</header>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * Render a transcript as structured JSON
+ */
+function renderJson(document: ExportDocument): string {
+  return JSON.stringify({
+    title: document.title,
+    session: document.sessionName ?? null,
+    model: document.model ?? null,
+    exported_at: new Date().toISOString(),
+    messages: document.messages.map(message => ({
+      role: message.role,
+      timestamp: message.timestamp ?? null,
+      stop_reason: message.stopReason,
+      text: message.text,
+      blocks: message.blocks.map(block => {
+        if (block.kind === 'text') {
+          return { type: 'text', text: block.text };
+        } else if (block.kind === 'tool_use') {
+          return { type: 'tool_use', id: block.id ?? null, name: block.name, input: block.input ?? null };
+        } else {
+          return {
+            type: 'tool_result',
+            tool_use_id: block.toolUseId ?? null,
+            is_error: block.isError,
+            content: block.content
+          };
+        }
+      })
+    }))
+  }, null, 2);
+}
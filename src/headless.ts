@@ -0,0 +1,164 @@
+/**
+ * Headless one-shot mode - send a single message and collect the reply without the Ink UI
+ */
+
+import type { ChannelStream } from 'theater-client';
+import { TheaterChatClient, type ActorLifecycleCallbacks } from './theater-client.js';
+import { supportsRequest } from './protocol.js';
+import { decodeChannelMessage, formatToolResult, isEndTurn } from './message-parser.js';
+import { formatActorError } from './error-parser.js';
+import { getServerAddress } from './enhanced-error-parser.js';
+import type { ChatConfig, ChatSession, RunOptions } from './types.js';
+
+/**
+ * Raised when the assistant does not finish its turn within the requested timeout
+ */
+export class HeadlessTimeoutError extends Error {
+  constructor(public seconds: number) {
+    super(`No reply received within ${seconds} seconds`);
+    this.name = 'HeadlessTimeoutError';
+  }
+}
+
+/**
+ * Format a tool call as a single line for plain-text output
+ */
+function formatToolCall(name: string, args: any[]): string {
+  const renderedArgs = args
+    .map(arg => typeof arg === 'string' ? arg : JSON.stringify(arg))
+    .join(', ');
+  return `[tool] ${name}(${renderedArgs})`;
+}
+
+/**
+ * Start the domain actor, send one message, and resolve with the assistant's reply
+ * once the turn ends. The actor is always stopped before returning.
+ */
+export async function runHeadless(config: ChatConfig, message: string, options: RunOptions): Promise<string> {
+  const log = (text: string) => {
+    if (options.verbose) {
+      console.error(text);
+    }
+  };
+
+  const client = new TheaterChatClient(getServerAddress(options), options.verbose || false);
+  let session: ChatSession | null = null;
+  let channel: ChannelStream | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  let finishTurn: () => void = () => { };
+  let failTurn: (error: unknown) => void = () => { };
+  const turn = new Promise<void>((resolve, reject) => {
+    finishTurn = resolve;
+    failTurn = reject;
+  });
+  // Failures before the turn is awaited are surfaced by the setup steps themselves
+  turn.catch(() => { });
+
+  const output: string[] = [];
+  let awaitingReply = false;
+
+  const callbacks: ActorLifecycleCallbacks = {
+    onActorExit: () => {
+      failTurn(new Error('Domain actor exited before the assistant replied'));
+    },
+    onActorError: (error: any) => {
+      failTurn(new Error(`Domain actor error: ${formatActorError(error)}`));
+    }
+  };
+
+  const stopSession = async () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    if (channel) {
+      try {
+        channel.close();
+      } catch {
+        // Ignore channel close errors
+      }
+    }
+    if (session) {
+      try {
+        await client.stopActor(session.domainActor);
+        log('Domain actor stopped.');
+      } catch (error) {
+        log(`Warning: Cleanup error - ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  };
+
+  const handleSignal = async () => {
+    await stopSession();
+    process.exit(130);
+  };
+  process.once('SIGINT', handleSignal);
+
+  try {
+    log(`Starting domain actor: ${config.actor.manifest_path}`);
+    const domainActor = await client.startDomainActor(
+      config.actor.manifest_path,
+      config.actor.initial_state,
+      callbacks
+    );
+    // Set before anything else can fail, so the actor is stopped
+    session = { domainActor, chatActorId: '' };
+
+    const { chatActorId, capabilities } = await client.openSession(domainActor);
+    session.chatActorId = chatActorId;
+    if (capabilities.name) {
+      log(`Actor: ${capabilities.name} ${capabilities.version}`);
+    }
+    log(`Domain actor: ${session.domainActor.id}, chat actor: ${session.chatActorId}`);
+
+    channel = await client.openChannelStream(session.chatActorId);
+    channel.onError((error) => failTurn(error));
+    channel.onClose(() => failTurn(new Error('Connection to chat actor closed')));
+    channel.onMessage((channelMessage) => {
+      try {
+        const chatMessage = decodeChannelMessage(channelMessage.data);
+        if (!chatMessage || !awaitingReply || chatMessage.role !== 'assistant') {
+          return;
+        }
+
+        if (options.showTools) {
+          for (const block of chatMessage.blocks) {
+            if (block.kind === 'tool_use') {
+              output.push(formatToolCall(block.name, block.args));
+            } else if (block.kind === 'tool_result' && (block.byteLength > 0 || block.isError)) {
+              output.push(formatToolResult(block));
+            }
+          }
+        }
+
+        if (chatMessage.text.trim()) {
+          output.push(chatMessage.text);
+        }
+
+        if (isEndTurn(chatMessage.stopReason)) {
+          finishTurn();
+        }
+      } catch (error) {
+        failTurn(error);
+      }
+    });
+
+    if (supportsRequest(capabilities, 'StartChat')) {
+      await client.startWorkflow(session.domainActor);
+    }
+
+    if (options.timeout) {
+      const seconds = options.timeout;
+      timer = setTimeout(() => failTurn(new HeadlessTimeoutError(seconds)), seconds * 1000);
+    }
+
+    awaitingReply = true;
+    await client.sendMessage(session.domainActor, message);
+    await turn;
+
+    return output.join('\n\n');
+  } finally {
+    process.removeListener('SIGINT', handleSignal);
+    await stopSession();
+  }
+}
@@ -5,33 +5,145 @@
  * 
  * Usage:
  *   theater-chat <config-name>     # Start chat with config (e.g., sonnet, sonnet/fs)
+ *   theater-chat run <config-name> # Send one message (--message or stdin) and print the reply
+ *   theater-chat resume [name]     # Resume a saved session (most recent, or --pick)
+ *   theater-chat attach <actor-id> # Chat with a running domain actor (leaves it running on exit)
+ *   theater-chat sessions <cmd>    # Manage saved sessions (list, show, rename, delete, prune)
+ *   theater-chat export <session>  # Export a saved session to Markdown, HTML or JSON
+ *   theater-chat search <query>    # Full-text search across saved sessions
+ *   theater-chat show <config>     # Print a config (--resolved for the merged result)
+ *   theater-chat schema            # Print the config JSON Schema
+ *   theater-chat validate [config] # Lint configs (all of them by default)
+ *   theater-chat convert <config>  # Convert a config between JSON, YAML and TOML (--to)
+ *   theater-chat doctor [config]   # Diagnose the server, actor startup and environment
+ *   theater-chat new [name]        # Create a config (interactive, or with --model for scripts)
+ *   theater-chat settings <cmd>    # Show and change user settings (list, get, set, unset)
+ *   theater-chat trust [config]    # Approve a project config's commands (lists approvals without a name)
+ *   theater-chat untrust <config>  # Revoke approval of a project config
+ *   theater-chat secrets <cmd>     # Manage secrets referenced as ${secret:NAME} (list, set, unset)
  *   theater-chat list              # List available configs
- *   theater-chat init              # Initialize config directories
+ *   theater-chat init [target]     # Initialize config directories (--template, --list-templates)
  */
 
-import { program } from 'commander';
+import { InvalidArgumentError, program } from 'commander';
 import chalk from 'chalk';
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { extname, relative } from 'path';
+import { createInterface } from 'readline/promises';
 import { renderChatApp } from './ui/ChatUI.js';
-import { resolveConfigPath, listConfigs, initConfigs } from './config-resolver.js';
-import type { CLIOptions, ChatConfig } from './types.js';
+import {
+  resolveConfigPath,
+  listConfigs,
+  listConfigFiles,
+  initConfigs,
+  findAmbiguousConfigs,
+  locateConfigFile,
+  ConfigAmbiguityError,
+  InvalidConfigError,
+  type ConfigInfo,
+  type ResolvedConfig
+} from './config-resolver.js';
+import {
+  ConfigParseError,
+  formatExtension,
+  formatFromPath,
+  parseConfigFormat,
+  parseConfigText,
+  serializeConfig,
+  stripConfigExtension
+} from './config-formats.js';
+import { applyConfigOverrides, ConfigOverrideError } from './config-overrides.js';
+import { buildConfigJsonSchema } from './config-schema.js';
+import { validateConfigs } from './config-validator.js';
+import { runDoctor } from './doctor.js';
+import {
+  DEFAULT_CHAT_MANIFEST,
+  NewConfigError,
+  parseStdioCommand,
+  writeNewConfig,
+  type McpServerAnswer,
+  type NewConfigAnswers
+} from './config-builder.js';
+import { runConfigWizard } from './ui/ConfigWizard.js';
+import {
+  APPROVAL_SETTINGS,
+  approveProjectSettings,
+  getSettings,
+  getSettingsPath,
+  isSettingKey,
+  loadSettings,
+  removeSetting,
+  settingEnvName,
+  SettingsError,
+  SETTING_KEYS,
+  writeSetting
+} from './settings.js';
+import { CONFIG_TEMPLATES, DEFAULT_TEMPLATE, parseTemplateParams, TemplateError } from './config-templates.js';
+import { runHeadless, HeadlessTimeoutError } from './headless.js';
+import {
+  describeLaunchTargets,
+  getSavedSessionTrustStatus,
+  getTrustStatus,
+  listTrustedConfigs,
+  trustConfig,
+  trustSavedSession,
+  untrustConfig
+} from './trust.js';
+import {
+  getSecretsPath,
+  listSecrets,
+  redactSecrets,
+  removeSecret,
+  restoreSecretReferences,
+  secretEnvName,
+  SecretsError,
+  writeSecret
+} from './secrets.js';
+import {
+  listSavedSessions,
+  loadSavedSession,
+  getSessionHistory,
+  renameSavedSession,
+  deleteSavedSession,
+  pruneSavedSessions,
+  tagSavedSession,
+  parseDuration,
+  type SavedSessionInfo
+} from './saved-sessions.js';
+import { pickSavedSession } from './ui/SessionPicker.js';
+import { buildSessionExport, parseExportFormat, renderExport } from './export.js';
+import { searchSessions, type SearchHit } from './search.js';
+import { formatConnectionError } from './theater-client.js';
+import { formatTheaterError, getServerAddress } from './enhanced-error-parser.js';
+import type { CLIOptions, ChatConfig, RunOptions } from './types.js';
 
 // Reserved command words that should not be treated as config names
-const RESERVED_COMMANDS = ['list', 'init'];
+const RESERVED_COMMANDS = ['list', 'init', 'run', 'resume', 'attach', 'sessions', 'export', 'search', 'show', 'schema', 'validate', 'convert', 'doctor', 'new', 'settings', 'trust', 'untrust', 'secrets'];
 
 // Main program setup
 program
   .name('theater-chat')
   .description('Configurable inline chat interface for Theater actors')
   .version('0.1.0')
-  .option('--server <address>', 'Theater server address', '127.0.0.1:9000')
+  .option('--server <address>', 'Theater server address (default: the server setting, 127.0.0.1:9000)')
   .option('--message <text>', 'Send an initial message to start the conversation')
-  .option('--verbose', 'Enable verbose logging')
+  .option('--verbose', 'Enable verbose logging (default: the verbose setting)')
+  .option('--tag <tag>', 'Tag the saved session (repeatable)', collectValues, [])
+  .option('--set <path=value>', 'Override a config field, e.g. config.temperature=0.2 (repeatable)', collectValues, [])
+  .option('--system-prompt-file <file>', 'Replace the system prompt with the contents of a file')
+  .option('--detach', 'Leave the domain actor running when the chat exits')
+  .option('--actor-id <id>', 'Attach to a running domain actor instead of starting a config (same as attach)')
   .action(async (options, command) => {
     const args = command.args;
 
+    if (options.actorId) {
+      await handleAttachCommand(options.actorId, { ...sharedOptions(options), detach: true });
+      return;
+    }
+
     let firstArg;
     if (args.length === 0) {
-      firstArg = 'default'; // Default config if no args provided
+      firstArg = getSettings().defaultConfig; // Default config if no args provided
     } else {
       firstArg = args[0]; // First argument is either a command or config name
     }
@@ -42,22 +154,267 @@ program
       return;
     }
 
-    if (firstArg === 'init') {
-      handleInitCommand(args.slice(1));
-      return;
-    }
-
     // Treat as config name
     await handleChatCommand(firstArg, {
-      server: options.server,
+      ...sharedOptions(options),
+      message: options.message,
+      tags: options.tag,
+      set: options.set,
+      systemPromptFile: options.systemPromptFile,
+      detach: options.detach
+    });
+  });
+
+program
+  .command('init [target]')
+  .description('Create a config from a built-in template in local, global or both config directories')
+  .option('-t, --template <name>', 'Template to use', DEFAULT_TEMPLATE)
+  .option('--list-templates', 'List the built-in templates and their parameters')
+  .option('--name <config>', 'Config name to write (defaults to the template\'s name)')
+  .option('-p, --param <name=value>', 'Fill a template parameter, e.g. model=claude-opus-4-20250514 (repeatable)', collectValues, [])
+  .option('--force', 'Overwrite an existing config')
+  .action((target: string | undefined, initOptions) => {
+    if (initOptions.listTemplates) {
+      handleListTemplatesCommand();
+    } else {
+      handleInitCommand(target, initOptions);
+    }
+  });
+
+program
+  .command('run <config>')
+  .description('Send a single message (--message or stdin), print the reply to stdout and exit')
+  .option('--show-tools', 'Include tool calls and results in the output')
+  .option('--timeout <seconds>', 'Fail if the reply does not finish within this many seconds', parseFloat)
+  .action(async (configName: string, runOptions) => {
+    const options = program.opts();
+    await handleRunCommand(configName, {
+      ...sharedOptions(options),
       message: options.message,
-      verbose: options.verbose
+      set: options.set,
+      systemPromptFile: options.systemPromptFile,
+      showTools: runOptions.showTools,
+      timeout: runOptions.timeout
+    });
+  });
+
+program
+  .command('resume [name]')
+  .description('Resume a saved chat session (the most recent one by default)')
+  .option('--pick', 'Choose the session from an interactive list')
+  .action(async (name: string | undefined, resumeOptions) => {
+    const options = program.opts();
+    await handleResumeCommand(name, resumeOptions.pick || false, { ...sharedOptions(options), detach: options.detach });
+  });
+
+program
+  .command('attach <domain-actor-id>')
+  .description('Chat with a running domain actor, showing its history; it keeps running when you exit')
+  .option('--stop', 'Stop the actor when you exit')
+  .action(async (actorId: string, attachOptions) => {
+    const options = program.opts();
+    await handleAttachCommand(actorId, { ...sharedOptions(options), detach: !attachOptions.stop });
+  });
+
+const sessionsCommand = program
+  .command('sessions')
+  .description('Manage saved chat sessions');
+
+sessionsCommand
+  .command('list')
+  .description('List saved sessions, most recent first')
+  .option('--tagged <tag>', 'Only sessions with this tag')
+  .option('--config <name>', 'Only sessions started from this config')
+  .action((listOptions) => handleSessionsListCommand(listOptions));
+
+sessionsCommand
+  .command('show <name>')
+  .description('Show details and the saved conversation of a session')
+  .action((name: string) => handleSessionsShowCommand(name));
+
+sessionsCommand
+  .command('rename <name> <new-name>')
+  .description('Rename a saved session')
+  .action((name: string, newName: string) => handleSessionsRenameCommand(name, newName));
+
+sessionsCommand
+  .command('delete <name>')
+  .description('Delete a saved session')
+  .action((name: string) => handleSessionsDeleteCommand(name));
+
+sessionsCommand
+  .command('tag <name> <tags...>')
+  .description('Add tags to a saved session')
+  .option('--remove', 'Remove the tags instead of adding them')
+  .action((name: string, tags: string[], tagOptions) => handleSessionsTagCommand(name, tags, tagOptions.remove || false));
+
+sessionsCommand
+  .command('prune')
+  .description('Delete old saved sessions')
+  .option('--older-than <duration>', 'Delete sessions older than this (e.g. 30d, 12h)')
+  .option('--keep <count>', 'Keep only the most recent <count> sessions', parsePositiveInt)
+  .option('--dry-run', 'Show what would be deleted without deleting')
+  .action((pruneOptions) => handleSessionsPruneCommand(pruneOptions));
+
+program
+  .command('export <session>')
+  .description('Export a saved session to Markdown, HTML or JSON')
+  .option('--format <format>', 'Output format: markdown, html or json', 'markdown')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .action((name: string, exportOptions) => handleExportCommand(name, exportOptions));
+
+program
+  .command('search <query>')
+  .description('Search saved sessions for messages containing all words of <query>')
+  .option('--role <role>', 'Only match user or assistant messages')
+  .option('--since <when>', 'Only match messages since a date (YYYY-MM-DD) or duration ago (e.g. 7d)')
+  .option('--config <name>', 'Only search sessions started from this config')
+  .option('--tool <name>', 'Only search sessions that used this tool')
+  .option('--limit <count>', 'Maximum number of hits', parsePositiveInt, 20)
+  .action((query: string, searchOptions) => handleSearchCommand(query, searchOptions));
+
+program
+  .command('show <config>')
+  .description('Print a config file, or with --resolved the merged config the actor receives')
+  .option('--resolved', 'Apply variables and `extends` inheritance before printing')
+  .action((configName: string, showOptions) => {
+    const options = program.opts();
+    handleShowCommand(configName, showOptions.resolved || false, {
+      set: options.set,
+      systemPromptFile: options.systemPromptFile
     });
   });
 
+program
+  .command('validate [configs...]')
+  .description('Check configs for schema errors, missing manifests, MCP binaries and directories')
+  .option('--all', 'Validate every local and global config (the default when no names are given)')
+  .option('--json', 'Print results as JSON')
+  .action((names: string[], validateOptions) => handleValidateCommand(validateOptions.all ? [] : names, validateOptions.json || false));
+
+program
+  .command('convert <config>')
+  .description('Convert a config file (by name or path) between JSON, YAML and TOML')
+  .requiredOption('--to <format>', 'Format to convert to: json, yaml or toml')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .option('--replace', 'Write the converted file next to the original and remove the original')
+  .option('--force', 'Overwrite an existing output file')
+  .action((configName: string, convertOptions) => handleConvertCommand(configName, convertOptions));
+
+program
+  .command('doctor [config]')
+  .description('Check the Theater server, a config\'s actor and MCP servers, config directories and the terminal')
+  .action(async (configName: string | undefined) => {
+    const options = program.opts();
+    await handleDoctorCommand(configName, sharedOptions(options));
+  });
+
+program
+  .command('new [name]')
+  .description('Create a config interactively, or from flags when --model is given')
+  .option('--provider <provider>', 'Model provider (anthropic, google, openai)', 'anthropic')
+  .option('--model <model>', 'Model name; skips the wizard and writes the config from flags')
+  .option('--temperature <number>', 'Sampling temperature (0-2)', parseFloat)
+  .option('--max-tokens <number>', 'Maximum tokens per reply', parsePositiveInt)
+  .option('--system-prompt <text>', 'System prompt (or use --system-prompt-file)')
+  .option('--title <title>', 'Conversation title (defaults to the config name)')
+  .option('--mcp-stdio <command>', 'Attach a stdio MCP server, e.g. "fs-mcp-server --allowed-dirs ." (repeatable)', collectValues, [])
+  .option('--mcp-actor <manifest>', 'Attach an MCP server actor by manifest (repeatable)', collectValues, [])
+  .option('--manifest <path>', 'Chat actor manifest', DEFAULT_CHAT_MANIFEST)
+  .option('--global', 'Save to the global config directory instead of .theater-chat/')
+  .option('--force', 'Overwrite an existing config')
+  .action(async (name: string | undefined, newOptions) => {
+    // --system-prompt-file is a program-level option, so commander stores it there
+    await handleNewCommand(name, { ...newOptions, systemPromptFile: program.opts().systemPromptFile });
+  });
+
+program
+  .command('schema')
+  .description('Print the JSON Schema for config files (for editor validation and autocomplete)')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .action((schemaOptions) => handleSchemaCommand(schemaOptions.output));
+
+const settingsCommand = program
+  .command('settings')
+  .description('Show and change user settings (global settings.json, overridable per project)');
+
+settingsCommand
+  .command('list')
+  .description('List every setting with its value and where it came from')
+  .option('--json', 'Print settings as JSON')
+  .action((listOptions) => handleSettingsListCommand(listOptions.json || false));
+
+settingsCommand
+  .command('get <key>')
+  .description('Print the current value of a setting')
+  .action((key: string) => handleSettingsGetCommand(key));
+
+settingsCommand
+  .command('set <key> <value>')
+  .description('Set a setting in the global settings file (or the project one with --project)')
+  .option('--project', 'Write to .theater-chat/settings.json at the project root')
+  .action((key: string, value: string, setOptions) => handleSettingsSetCommand(key, value, setOptions.project ? 'project' : 'global'));
+
+settingsCommand
+  .command('unset <key>')
+  .description('Remove a setting from the global settings file (or the project one with --project)')
+  .option('--project', 'Remove from .theater-chat/settings.json at the project root')
+  .action((key: string, unsetOptions) => handleSettingsUnsetCommand(key, unsetOptions.project ? 'project' : 'global'));
+
+settingsCommand
+  .command('trust')
+  .description(`Approve the project settings file, so that its ${APPROVAL_SETTINGS.join(', ')} is used`)
+  .action(() => handleSettingsTrustCommand());
+
+program
+  .command('trust [config]')
+  .description('Approve the commands and manifests a project config launches (without a name, list approvals)')
+  .action((configName: string | undefined) => {
+    if (configName) {
+      handleTrustCommand(configName);
+    } else {
+      handleTrustListCommand();
+    }
+  });
+
+program
+  .command('untrust <config>')
+  .description('Revoke approval of a project config, by name or path')
+  .action((configName: string) => handleUntrustCommand(configName));
+
+const secretsCommand = program
+  .command('secrets')
+  .description('Manage secrets that configs reference as ${secret:NAME}');
+
+secretsCommand
+  .command('list')
+  .description('List the secrets that are set (names only) and where they come from')
+  .action(() => handleSecretsListCommand());
+
+secretsCommand
+  .command('set <name>')
+  .description('Store a secret, read from stdin or typed at a hidden prompt')
+  .action(async (name: string) => await handleSecretsSetCommand(name));
+
+secretsCommand
+  .command('unset <name>')
+  .description('Remove a secret from the secrets file')
+  .action((name: string) => handleSecretsUnsetCommand(name));
+
 // Parse command line arguments
 program.parse();
 
+/**
+ * Server and verbose flags, falling back to settings (env, project, then global) when not given
+ */
+function sharedOptions(options: { server?: string; verbose?: boolean }): Pick<CLIOptions, 'server' | 'verbose'> {
+  const settings = getSettings();
+  return {
+    server: options.server ?? settings.server,
+    verbose: options.verbose ?? settings.verbose
+  };
+}
+
 /**
  * Handle the 'list' command - show available configs
  */
@@ -70,14 +427,24 @@ function handleListCommand(): void {
     return;
   }
 
-  // Group by source
-  const localConfigs = configs.filter(c => c.source === 'local');
+  const ambiguous = findAmbiguousConfigs(listConfigFiles());
+  const describe = (config: ConfigInfo): string => {
+    const line = `  ${chalk.green(config.name)} ${chalk.gray(`(${config.path})`)}`;
+    const files = ambiguous.get(`${config.dir}:${config.name}`);
+    if (files) {
+      return `${line} ${chalk.yellow(`⚠ ambiguous, also ${files.filter(file => file !== config.path).map(file => extname(file)).join(', ')}`)}`;
+    }
+    return shadowedGlobalConfig(config) ? `${line} ${chalk.yellow('(shadows global)')}` : line;
+  };
+
+  // Group by layer, closest local directory first
+  const localDirs = [...new Set(configs.filter(c => c.source === 'local').map(c => c.dir))];
   const globalConfigs = configs.filter(c => c.source === 'global');
 
-  if (localConfigs.length > 0) {
-    console.log(chalk.blue('Local (.theater-chat/):'));
-    for (const config of localConfigs) {
-      console.log(`  ${chalk.green(config.name)} ${chalk.gray(`(${config.path})`)}`);
+  for (const dir of localDirs) {
+    console.log(chalk.blue(`Local (${relative(process.cwd(), dir) || '.'}/):`));
+    for (const config of configs.filter(c => c.dir === dir)) {
+      console.log(describe(config));
     }
     console.log();
   }
@@ -85,7 +452,7 @@ function handleListCommand(): void {
   if (globalConfigs.length > 0) {
     console.log(chalk.blue('Global (~/.config/theater-chat/):'));
     for (const config of globalConfigs) {
-      console.log(`  ${chalk.green(config.name)} ${chalk.gray(`(${config.path})`)}`);
+      console.log(describe(config));
     }
     console.log();
   }
@@ -95,81 +462,1197 @@ function handleListCommand(): void {
 }
 
 /**
- * Handle the 'init' command - initialize config directories
+ * The global config a local config of the same name hides, if any
  */
-function handleInitCommand(args: string[]): void {
-  console.log(chalk.bold('🚀 Initializing Theater Chat configurations...'));
-  console.log();
+function shadowedGlobalConfig(config: Pick<ConfigInfo, 'name' | 'source'>): ConfigInfo | undefined {
+  if (config.source !== 'local') return undefined;
+  return listConfigFiles().find(other => other.source === 'global' && other.name === config.name);
+}
 
-  const target = args[0] as 'local' | 'global' | 'both' || 'local';
+/**
+ * Handle the 'init' command - initialize config directories from a template
+ */
+function handleInitCommand(
+  targetArg: string | undefined,
+  options: { template: string; name?: string; param: string[]; force?: boolean }
+): void {
+  const target = targetArg || 'local';
 
-  if (target && !['local', 'global', 'both'].includes(target)) {
+  if (!['local', 'global', 'both'].includes(target)) {
     console.error(chalk.red(`❌ Invalid target: ${target}`));
     console.log(chalk.gray('Valid targets: local, global, both'));
     process.exit(1);
   }
 
+  console.log(chalk.bold('🚀 Initializing Theater Chat configurations...'));
+  console.log();
+
   try {
-    initConfigs(target);
+    initConfigs(target as 'local' | 'global' | 'both', {
+      template: options.template,
+      name: options.name,
+      params: parseTemplateParams(options.param),
+      force: options.force
+    });
     console.log();
     console.log(chalk.green('✅ Initialization complete!'));
     console.log(chalk.gray('Run `theater-chat list` to see available configs.'));
   } catch (error) {
-    console.error(chalk.red(`❌ Error during initialization: ${error}`));
+    if (error instanceof TemplateError) {
+      console.error(chalk.red(`❌ ${error.message}`));
+    } else {
+      console.error(chalk.red(`❌ Error during initialization: ${error}`));
+    }
     process.exit(1);
   }
 }
 
 /**
- * Handle chat commands - load config and start chat
+ * Handle 'init --list-templates' - show the built-in templates
  */
-async function handleChatCommand(configName: string, options: CLIOptions): Promise<void> {
+function handleListTemplatesCommand(): void {
+  console.log(chalk.blue('Templates:'));
+  for (const template of CONFIG_TEMPLATES) {
+    const isDefault = template.name === DEFAULT_TEMPLATE ? chalk.gray(' (default)') : '';
+    console.log(`  ${chalk.green(template.name)}${isDefault} ${chalk.gray(`- ${template.description}`)}`);
+    for (const [name, parameter] of Object.entries(template.parameters)) {
+      console.log(chalk.gray(`    ${name}: ${parameter.description} (default: ${parameter.default})`));
+    }
+  }
+  console.log();
+  console.log(chalk.gray('Usage: theater-chat init [local|global|both] --template <name> [--param name=value]'));
+}
+
+/**
+ * Resolve a config by name, listing available configs and exiting if it is not found
+ */
+function resolveConfigOrExit(configName: string): ResolvedConfig {
+  let resolved: ResolvedConfig | null;
   try {
-    // Resolve the config
-    const resolved = resolveConfigPath(configName);
+    resolved = resolveConfigPath(configName);
+  } catch (error) {
+    if (error instanceof InvalidConfigError) {
+      console.error(chalk.red(`❌ ${error.message}`));
+      process.exit(1);
+    }
+    throw error;
+  }
 
-    if (!resolved) {
-      console.error(chalk.red(`❌ Config not found: ${configName}`));
-      console.log(chalk.gray('Available configs:'));
-
-      const configs = listConfigs();
-      if (configs.length === 0) {
-        console.log(chalk.gray('  (none found - run `theater-chat init` to create defaults)'));
-      } else {
-        for (const config of configs.slice(0, 5)) {
-          console.log(chalk.gray(`  ${config.name}`));
-        }
-        if (configs.length > 5) {
-          console.log(chalk.gray(`  ... and ${configs.length - 5} more`));
-        }
+  if (!resolved) {
+    console.error(chalk.red(`❌ Config not found: ${configName}`));
+    console.error(chalk.gray('Available configs:'));
+
+    const configs = listConfigs();
+    if (configs.length === 0) {
+      console.error(chalk.gray('  (none found - run `theater-chat init` to create defaults)'));
+    } else {
+      for (const config of configs.slice(0, 5)) {
+        console.error(chalk.gray(`  ${config.name}`));
+      }
+      if (configs.length > 5) {
+        console.error(chalk.gray(`  ... and ${configs.length - 5} more`));
       }
+    }
+    process.exit(1);
+  }
+
+  return resolved;
+}
+
+/**
+ * Apply --set and --system-prompt-file overrides to a config, exiting if they are invalid
+ */
+function applyOverridesOrExit(config: ChatConfig, options: CLIOptions): ChatConfig {
+  try {
+    return applyConfigOverrides(config, { set: options.set, systemPromptFile: options.systemPromptFile });
+  } catch (error) {
+    if (error instanceof ConfigOverrideError) {
+      console.error(chalk.red(`❌ ${error.message}`));
       process.exit(1);
     }
+    throw error;
+  }
+}
 
-    console.log(chalk.blue(`   Using ${resolved.source} config: ${chalk.bold(configName)}`));
-    console.log(chalk.gray(`   Path: ${resolved.path}`));
+/**
+ * Handle the 'show' command - print a config as written or fully resolved
+ */
+function handleShowCommand(configName: string, resolvedOutput: boolean, options: CLIOptions): void {
+  const resolved = resolveConfigOrExit(configName);
 
-    let chatConfig: ChatConfig = resolved.config;
+  console.error(chalk.gray(`${resolved.source} config: ${resolved.path}`));
+  for (const parent of resolved.inherits) {
+    console.error(chalk.gray(`  extends ${parent}`));
+  }
 
-    // Add initial message if provided
-    if (options.message) {
-      if (!chatConfig.actor.initial_state) {
-        chatConfig.actor.initial_state = {};
+  if (resolvedOutput) {
+    console.log(JSON.stringify(redactSecrets(applyOverridesOrExit(resolved.config, options)), null, 2));
+  } else {
+    console.log(readFileSync(resolved.path, 'utf8').trimEnd());
+  }
+}
+
+/**
+ * Handle the 'schema' command - emit the config JSON Schema
+ */
+function handleSchemaCommand(output: string | undefined): void {
+  const schema = `${JSON.stringify(buildConfigJsonSchema(), null, 2)}\n`;
+
+  if (output) {
+    writeFileSync(output, schema);
+    console.log(chalk.green(`✓ Wrote config schema to ${output}`));
+  } else {
+    process.stdout.write(schema);
+  }
+}
+
+interface NewCommandOptions {
+  provider: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  systemPrompt?: string;
+  systemPromptFile?: string;
+  title?: string;
+  mcpStdio: string[];
+  mcpActor: string[];
+  manifest: string;
+  global?: boolean;
+  force?: boolean;
+}
+
+/**
+ * Handle the 'new' command - run the wizard, or build the config from flags when --model is given
+ */
+async function handleNewCommand(name: string | undefined, options: NewCommandOptions): Promise<void> {
+  let answers: NewConfigAnswers;
+  let force = options.force || false;
+
+  if (options.model) {
+    if (!name) {
+      console.error(chalk.red('❌ A config name is required with --model'));
+      process.exit(1);
+    }
+
+    let systemPrompt = options.systemPrompt;
+    if (options.systemPromptFile) {
+      try {
+        systemPrompt = readFileSync(options.systemPromptFile, 'utf8').trimEnd();
+      } catch (error) {
+        console.error(chalk.red(`❌ Could not read system prompt file ${options.systemPromptFile}: ${error instanceof Error ? error.message : error}`));
+        process.exit(1);
       }
-      chatConfig.actor.initial_state.initial_message = options.message;
     }
 
-    // Start the interactive UI
-    await renderChatApp(options, chatConfig);
+    const mcpServers: McpServerAnswer[] = [
+      ...options.mcpStdio.map(parseStdioCommand),
+      ...options.mcpActor.map((manifestPath): McpServerAnswer => ({ kind: 'actor', manifestPath }))
+    ];
+
+    answers = {
+      name,
+      target: options.global ? 'global' : 'local',
+      manifestPath: options.manifest,
+      provider: options.provider,
+      model: options.model,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      systemPrompt,
+      title: options.title,
+      mcpServers
+    };
+  } else {
+    const result = await runConfigWizard(name);
+    if (!result) {
+      console.log(chalk.gray('Cancelled.'));
+      return;
+    }
+    answers = { ...result.answers, manifestPath: options.manifest, title: options.title };
+    force = force || result.overwrite;
+  }
 
+  try {
+    const path = writeNewConfig(answers, force);
+    console.log(chalk.green(`✓ Wrote ${displayPath(path)}`));
+    console.log(chalk.gray(`Start it with: theater-chat ${stripConfigExtension(answers.name)}`));
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error(chalk.red(`❌ Error: ${errorMessage}`));
+    if (error instanceof NewConfigError) {
+      console.error(chalk.red(`❌ ${error.message}`));
+      process.exit(1);
+    }
+    throw error;
+  }
+}
 
-    if (options.verbose && error instanceof Error && error.stack) {
-      console.error(chalk.gray(error.stack));
+/**
+ * Handle 'settings list' - show each setting, its value and its source
+ */
+function handleSettingsListCommand(json: boolean): void {
+  const { settings, sources } = loadSettings();
+
+  if (json) {
+    console.log(JSON.stringify(Object.fromEntries(
+      SETTING_KEYS.map(key => [key, { value: settings[key], source: sources[key] }])
+    ), null, 2));
+    return;
+  }
+
+  const width = Math.max(...SETTING_KEYS.map(key => key.length));
+  for (const key of SETTING_KEYS) {
+    const source = sources[key] === 'env' ? settingEnvName(key) : sources[key];
+    console.log(`  ${chalk.green(key.padEnd(width))}  ${JSON.stringify(settings[key])} ${chalk.gray(`(${source})`)}`);
+  }
+  console.log();
+  console.log(chalk.gray(`Global: ${getSettingsPath('global')}`));
+  console.log(chalk.gray(`Project: ${getSettingsPath('project')}`));
+}
+
+/**
+ * Handle 'settings get' - print one setting's value
+ */
+function handleSettingsGetCommand(key: string): void {
+  if (!isSettingKey(key)) {
+    console.error(chalk.red(`❌ Unknown setting: ${key}`));
+    console.error(chalk.gray(`Settings: ${SETTING_KEYS.join(', ')}`));
+    process.exit(1);
+  }
+  const value = getSettings()[key];
+  console.log(typeof value === 'string' ? value : JSON.stringify(value));
+}
+
+/**
+ * Handle 'settings set' - write a setting to the global or project settings file
+ */
+function handleSettingsSetCommand(key: string, value: string, scope: 'global' | 'project'): void {
+  try {
+    const path = writeSetting(key, value, scope);
+    console.log(chalk.green(`✓ Set ${key} in ${displayPath(path)}`));
+    if (scope === 'project' && isSettingKey(key) && APPROVAL_SETTINGS.includes(key)) {
+      console.log(chalk.gray(`Approved here; elsewhere, a project ${key} is used only once \`theater-chat settings trust\` approves it`));
+    }
+
+    const { sources } = loadSettings();
+    if (isSettingKey(key) && sources[key] !== scope) {
+      const by = sources[key] === 'env' ? settingEnvName(key) : `the ${sources[key]} settings`;
+      console.log(chalk.yellow(`⚠ ${key} is currently overridden by ${by}`));
+    }
+  } catch (error) {
+    if (error instanceof SettingsError) {
+      console.error(chalk.red(`❌ ${error.message}`));
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Handle 'settings unset' - remove a setting from the global or project settings file
+ */
+function handleSettingsUnsetCommand(key: string, scope: 'global' | 'project'): void {
+  try {
+    if (removeSetting(key, scope)) {
+      console.log(chalk.green(`✓ Removed ${key} from ${displayPath(getSettingsPath(scope))}`));
+    } else {
+      console.log(chalk.yellow(`⚠ ${key} is not set in the ${scope} settings`));
+    }
+  } catch (error) {
+    if (error instanceof SettingsError) {
+      console.error(chalk.red(`❌ ${error.message}`));
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Handle 'settings trust' - approve the project settings file as it is now
+ */
+function handleSettingsTrustCommand(): void {
+  try {
+    const approved = approveProjectSettings();
+    for (const [key, value] of Object.entries(approved)) {
+      console.log(`  ${chalk.green(key)}  ${JSON.stringify(value)}`);
+    }
+    console.log(chalk.green(`✓ Trusted ${displayPath(getSettingsPath('project'))}`));
+  } catch (error) {
+    if (error instanceof SettingsError) {
+      console.error(chalk.red(`❌ ${error.message}`));
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read a line from the terminal without echoing it
+ */
+function readHiddenLine(prompt: string): Promise<string> {
+  return new Promise(resolve => {
+    const stdin = process.stdin;
+    let value = '';
+    process.stderr.write(prompt);
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.setEncoding('utf8');
+
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n') {
+          stdin.off('data', onData);
+          stdin.setRawMode(false);
+          stdin.pause();
+          process.stderr.write('\n');
+          resolve(value);
+          return;
+        }
+        if (char === '\u0003') {
+          stdin.setRawMode(false);
+          process.stderr.write('\n');
+          process.exit(130);
+        }
+        value = char === '\u007f' || char === '\b' ? value.slice(0, -1) : value + char;
+      }
+    };
+    stdin.on('data', onData);
+  });
+}
+
+/**
+ * Handle 'secrets list' - show secret names and sources, never values
+ */
+function handleSecretsListCommand(): void {
+  try {
+    const secrets = listSecrets();
+    if (secrets.length === 0) {
+      console.log(chalk.yellow('No secrets set.'));
+      console.log(chalk.gray('Add one with `theater-chat secrets set <name>`.'));
+      return;
+    }
+    for (const { name, source } of secrets) {
+      const from = source === 'env' ? secretEnvName(name) : displayPath(getSecretsPath());
+      console.log(`${chalk.green(name)} ${chalk.gray(`(${from})`)}`);
+    }
+  } catch (error) {
+    if (error instanceof SecretsError) {
+      console.error(chalk.red(`❌ ${error.message}`));
+      process.exit(1);
     }
+    throw error;
+  }
+}
 
+/**
+ * Handle 'secrets set' - store a secret read from stdin, so it stays out of shell history
+ */
+async function handleSecretsSetCommand(name: string): Promise<void> {
+  const value = process.stdin.isTTY
+    ? await readHiddenLine(`Value for ${name}: `)
+    : (await readStdin()).replace(/\r?\n$/, '');
+  if (!value) {
+    console.error(chalk.red('❌ No value given'));
     process.exit(1);
   }
+
+  try {
+    const path = writeSecret(name, value);
+    console.log(chalk.green(`✓ Stored ${name} in ${displayPath(path)}`));
+    if (process.env[secretEnvName(name)]) {
+      console.log(chalk.yellow(`⚠ ${name} is currently overridden by ${secretEnvName(name)}`));
+    }
+  } catch (error) {
+    if (error instanceof SecretsError) {
+      console.error(chalk.red(`❌ ${error.message}`));
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Handle 'secrets unset' - remove a secret from the secrets file
+ */
+function handleSecretsUnsetCommand(name: string): void {
+  try {
+    if (removeSecret(name)) {
+      console.log(chalk.green(`✓ Removed ${name}`));
+    } else {
+      console.log(chalk.yellow(`⚠ ${name} is not in ${displayPath(getSecretsPath())}`));
+    }
+  } catch (error) {
+    if (error instanceof SecretsError) {
+      console.error(chalk.red(`❌ ${error.message}`));
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Print what a config will launch, for approving it
+ */
+function printTrustReview(configName: string, resolved: ResolvedConfig): void {
+  console.error(chalk.bold(`${configName} (${displayPath(resolved.path)}) will launch:`));
+  for (const target of describeLaunchTargets(resolved.config)) {
+    console.error(`  ${target}`);
+  }
+  for (const parent of resolved.inherits) {
+    console.error(chalk.gray(`  (extends ${displayPath(parent)})`));
+  }
+
+  const shadowed = shadowedGlobalConfig({ name: stripConfigExtension(configName), source: resolved.source });
+  if (shadowed) {
+    console.error(chalk.yellow(`⚠ This project config is used instead of your global config ${shadowed.path}`));
+  }
+}
+
+/**
+ * Ask for approval of a project config that is new or has changed since it was trusted,
+ * exiting if it is refused or there is no terminal to ask on
+ */
+async function ensureTrustedOrExit(configName: string, resolved: ResolvedConfig): Promise<void> {
+  const status = getTrustStatus(resolved);
+  if (status === 'trusted' || status === 'not-required') {
+    return;
+  }
+
+  if (status === 'changed') {
+    console.error(chalk.yellow(`⚠ ${configName} has changed since you trusted it`));
+  } else {
+    const what = resolved.source === 'local' ? 'is a project config' : 'extends a project config';
+    console.error(chalk.yellow(`⚠ ${configName} ${what} you have not trusted yet`));
+  }
+  printTrustReview(configName, resolved);
+
+  await confirmTrustOrExit('config', `Review it and run \`theater-chat trust ${configName}\` to approve it.`);
+  trustConfig(resolved);
+}
+
+/**
+ * Ask for approval of a saved session that theater-chat did not save here, or that has been
+ * edited since, exiting if it is refused or there is no terminal to ask on
+ */
+async function ensureSessionTrustedOrExit(session: SavedSessionInfo): Promise<void> {
+  const status = getSavedSessionTrustStatus(session.path);
+  if (status === 'trusted' || status === 'not-required') {
+    return;
+  }
+
+  console.error(chalk.yellow(status === 'changed'
+    ? `⚠ Saved session ${session.name} has changed since theater-chat saved it`
+    : `⚠ Saved session ${session.name} was not saved by theater-chat on this machine`));
+  console.error(chalk.bold(`${session.name} (${displayPath(session.path)}) will launch:`));
+  for (const target of describeLaunchTargets(session.config)) {
+    console.error(`  ${target}`);
+  }
+  for (const path of session.secretPaths) {
+    console.error(`  Secret restored into: ${path}`);
+  }
+
+  await confirmTrustOrExit('session', 'Resume it from a terminal to review and approve it.');
+  trustSavedSession(session.path);
+}
+
+/**
+ * Ask whether to trust and run something that launches commands, exiting unless the answer is yes
+ */
+async function confirmTrustOrExit(what: 'config' | 'session', hint: string): Promise<void> {
+  if (!process.stdin.isTTY) {
+    console.error(chalk.red(`❌ Not running an untrusted ${what} without a terminal to confirm on`));
+    console.error(chalk.gray(hint));
+    process.exit(1);
+  }
+
+  const readline = createInterface({ input: process.stdin, output: process.stderr });
+  const answer = await readline.question(`Trust this ${what} and run it? [y/N] `);
+  readline.close();
+  if (!/^y(es)?$/i.test(answer.trim())) {
+    console.error(chalk.gray('Not trusted.'));
+    process.exit(1);
+  }
+}
+
+/**
+ * Handle the 'trust' command - approve a project config as it is now
+ */
+function handleTrustCommand(configName: string): void {
+  const resolved = resolveConfigOrExit(configName);
+  const status = getTrustStatus(resolved);
+  if (status === 'not-required') {
+    console.log(chalk.gray(`${configName} is a global config; only project configs need trusting`));
+    return;
+  }
+
+  printTrustReview(configName, resolved);
+  trustConfig(resolved);
+  console.log(chalk.green(`✓ Trusted ${displayPath(resolved.path)}${status === 'changed' ? ' (updated)' : ''}`));
+}
+
+/**
+ * Handle 'trust' without a config - list approved configs
+ */
+function handleTrustListCommand(): void {
+  const trusted = listTrustedConfigs();
+  if (trusted.length === 0) {
+    console.log(chalk.yellow('No trusted configs.'));
+    return;
+  }
+
+  for (const entry of trusted) {
+    const status = entry.status === 'trusted'
+      ? chalk.green('✓')
+      : chalk.yellow(entry.status === 'changed' ? '⚠ changed' : '⚠ missing');
+    console.log(`${status} ${entry.path} ${chalk.gray(`(trusted ${entry.trustedAt.slice(0, 10)})`)}`);
+  }
+}
+
+/**
+ * Handle the 'untrust' command - revoke approval by config name or path
+ */
+function handleUntrustCommand(configName: string): void {
+  // A path works even when the config no longer loads
+  let path = configName;
+  if (!formatFromPath(configName) || !existsSync(configName)) {
+    try {
+      path = locateConfigFile(configName)?.path ?? path;
+    } catch (error) {
+      if (error instanceof ConfigAmbiguityError) {
+        console.error(chalk.red(`❌ ${error.message}`));
+        process.exit(1);
+      }
+      throw error;
+    }
+  }
+
+  if (untrustConfig(path)) {
+    console.log(chalk.green(`✓ No longer trusting ${displayPath(path)}`));
+  } else {
+    console.log(chalk.yellow(`⚠ ${configName} was not trusted`));
+  }
+}
+
+/**
+ * Show a path relative to the current directory when it is inside it
+ */
+function displayPath(path: string): string {
+  const relativePath = relative(process.cwd(), path);
+  return relativePath && !relativePath.startsWith('..') ? relativePath : path;
+}
+
+/**
+ * Handle the 'validate' command - lint configs and exit non-zero on errors
+ */
+function handleValidateCommand(names: string[], json: boolean): void {
+  const configFiles = listConfigFiles();
+  // A name with an extension (`review.yaml`) picks that file when a config exists in several formats
+  const matches = (config: ConfigInfo, name: string) =>
+    config.name === name || `${config.name}${extname(config.path)}` === name;
+  const selected = names.length === 0
+    ? configFiles
+    : configFiles.filter(config => names.some(name => matches(config, name)));
+  selected.sort((a, b) => a.name.localeCompare(b.name));
+
+  const missing = names.filter(name => !configFiles.some(config => matches(config, name)));
+  if (missing.length > 0) {
+    console.error(chalk.red(`❌ Config not found: ${missing.join(', ')}`));
+    process.exit(1);
+  }
+
+  const results = validateConfigs(selected, configFiles);
+  const all = results.flatMap(result => result.diagnostics);
+  const errorCount = all.filter(diagnostic => diagnostic.severity === 'error').length;
+  const warningCount = all.length - errorCount;
+
+  if (json) {
+    console.log(JSON.stringify({ results, errors: errorCount, warnings: warningCount }, null, 2));
+    process.exit(errorCount > 0 ? 1 : 0);
+  }
+
+  for (const result of results) {
+    const hasErrors = result.diagnostics.some(diagnostic => diagnostic.severity === 'error');
+    const status = hasErrors ? chalk.red('✗') : chalk.green('✓');
+    console.log(`${status} ${chalk.bold(result.name)} ${chalk.gray(`(${result.source}, ${displayPath(result.path)})`)}`);
+
+    for (const diagnostic of result.diagnostics) {
+      const location = `${displayPath(diagnostic.file)}${diagnostic.line ? `:${diagnostic.line}` : ''}`;
+      const label = diagnostic.severity === 'error' ? chalk.red('error') : chalk.yellow('warning');
+      console.log(`    ${chalk.gray(location)} ${label} ${diagnostic.message}`);
+    }
+  }
+
+  console.log();
+  const summary = `${results.length} config${results.length === 1 ? '' : 's'} checked: ${errorCount} error${errorCount === 1 ? '' : 's'}, ${warningCount} warning${warningCount === 1 ? '' : 's'}`;
+  console.log(errorCount > 0 ? chalk.red(summary) : chalk.green(summary));
+  process.exit(errorCount > 0 ? 1 : 0);
+}
+
+/**
+ * Handle the 'convert' command - rewrite a config file in another format
+ */
+function handleConvertCommand(
+  configName: string,
+  options: { to: string; output?: string; replace?: boolean; force?: boolean }
+): void {
+  const format = parseConfigFormat(options.to);
+  if (!format) {
+    console.error(chalk.red(`❌ Unknown format: ${options.to} (expected json, yaml or toml)`));
+    process.exit(1);
+  }
+  if (options.output && options.replace) {
+    console.error(chalk.red('❌ Use either --output or --replace, not both'));
+    process.exit(1);
+  }
+
+  let located: ReturnType<typeof locateConfigFile>;
+  let config: unknown;
+  try {
+    located = locateConfigFile(configName);
+    if (!located) {
+      console.error(chalk.red(`❌ Config not found: ${configName}`));
+      process.exit(1);
+    }
+    config = parseConfigText(readFileSync(located.path, 'utf8'), located.path);
+  } catch (error) {
+    if (error instanceof ConfigAmbiguityError || error instanceof ConfigParseError) {
+      console.error(chalk.red(`❌ ${error.message}`));
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  if (formatFromPath(located.path) === format) {
+    console.error(chalk.yellow(`⚠ ${displayPath(located.path)} is already ${format.toUpperCase()}`));
+  }
+
+  // Variables and `extends` are kept as written, so the converted file behaves like the original
+  const { text, droppedNulls } = serializeConfig(config, format);
+  for (const path of droppedNulls) {
+    console.error(chalk.yellow(`⚠ TOML has no null, dropped ${path} (the same as leaving it unset)`));
+  }
+
+  const outputPath = options.replace
+    ? `${stripConfigExtension(located.path)}${formatExtension(format)}`
+    : options.output;
+  if (!outputPath) {
+    process.stdout.write(text);
+    return;
+  }
+
+  if (existsSync(outputPath) && !options.force) {
+    console.error(chalk.red(`❌ ${displayPath(outputPath)} already exists (use --force to overwrite)`));
+    process.exit(1);
+  }
+  writeFileSync(outputPath, text);
+  if (options.replace && outputPath !== located.path) {
+    unlinkSync(located.path);
+    console.log(chalk.green(`✓ Converted ${displayPath(located.path)} to ${displayPath(outputPath)}`));
+  } else {
+    console.log(chalk.green(`✓ Wrote ${displayPath(outputPath)}`));
+  }
+}
+
+/**
+ * Handle the 'doctor' command - print environment diagnostics and exit non-zero on failures
+ */
+async function handleDoctorCommand(configName: string | undefined, options: CLIOptions): Promise<void> {
+  console.log(chalk.bold('🩺 Theater Chat doctor'));
+  console.log();
+
+  const checks = await runDoctor(configName, options);
+  const icons = {
+    ok: chalk.green('✓'),
+    warn: chalk.yellow('⚠'),
+    fail: chalk.red('✗'),
+    skip: chalk.gray('-')
+  };
+
+  for (const check of checks) {
+    console.log(`  ${icons[check.status]} ${chalk.bold(check.name)} ${chalk.gray(check.detail)}`);
+  }
+
+  const failures = checks.filter(check => check.status === 'fail').length;
+  console.log();
+  if (failures > 0) {
+    console.log(chalk.red(`${failures} check${failures === 1 ? '' : 's'} failed`));
+  } else {
+    console.log(chalk.green('All checks passed'));
+  }
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+/**
+ * Handle chat commands - load config and start chat
+ */
+async function handleChatCommand(configName: string, options: CLIOptions): Promise<void> {
+  try {
+    const resolved = resolveConfigOrExit(configName);
+    await ensureTrustedOrExit(configName, resolved);
+
+    console.log(chalk.blue(`   Using ${resolved.source} config: ${chalk.bold(configName)}`));
+    console.log(chalk.gray(`   Path: ${resolved.path}`));
+
+    let chatConfig: ChatConfig = applyOverridesOrExit(resolved.config, options);
+
+    // Add initial message if provided
+    if (options.message) {
+      if (!chatConfig.actor.initial_state) {
+        chatConfig.actor.initial_state = {};
+      }
+      chatConfig.actor.initial_state.initial_message = options.message;
+    }
+
+    // Start the interactive UI
+    await renderChatApp(options, chatConfig, configName);
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`❌ Error: ${errorMessage}`));
+
+    if (options.verbose && error instanceof Error && error.stack) {
+      console.error(chalk.gray(error.stack));
+    }
+
+    process.exit(1);
+  }
+}
+
+/**
+ * Handle the 'attach' command - open the chat UI on a domain actor that is already running,
+ * e.g. one left behind by --detach. The actor's chat is not restarted.
+ */
+async function handleAttachCommand(actorId: string, options: CLIOptions): Promise<void> {
+  try {
+    console.log(chalk.blue(`   Attaching to actor: ${chalk.bold(actorId)}`));
+    await renderChatApp({ ...options, actorId }, null);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`❌ Error: ${errorMessage}`));
+
+    if (options.verbose && error instanceof Error && error.stack) {
+      console.error(chalk.gray(error.stack));
+    }
+
+    process.exit(1);
+  }
+}
+
+/**
+ * Read all of stdin as a string
+ */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Handle the 'run' command - headless one-shot chat that prints the reply to stdout
+ *
+ * Exit codes: 0 on success, 1 on errors, 2 when no message was given,
+ * 124 when --timeout expires and 130 when interrupted.
+ */
+async function handleRunCommand(configName: string, options: RunOptions): Promise<void> {
+  let message = options.message;
+  if (!message && !process.stdin.isTTY) {
+    message = await readStdin();
+  }
+
+  if (!message || !message.trim()) {
+    console.error(chalk.red('❌ No message given'));
+    console.error(chalk.gray('Pass --message "<text>" or pipe the message on stdin.'));
+    process.exit(2);
+  }
+
+  const resolved = resolveConfigOrExit(configName);
+  await ensureTrustedOrExit(configName, resolved);
+  const config = applyOverridesOrExit(resolved.config, options);
+
+  if (options.verbose) {
+    console.error(chalk.gray(`Using ${resolved.source} config: ${configName} (${resolved.path})`));
+  }
+
+  try {
+    const reply = await runHeadless(config, message.trim(), options);
+    process.stdout.write(reply.endsWith('\n') ? reply : `${reply}\n`);
+    process.exit(0);
+  } catch (error) {
+    let errorMessage = formatConnectionError(error);
+    // Fall back to theater error formatting if not a connection error
+    if (errorMessage === (error instanceof Error ? error.message : String(error))) {
+      errorMessage = formatTheaterError(error, getServerAddress(options));
+    }
+    console.error(chalk.red(`❌ Error: ${errorMessage}`));
+
+    if (options.verbose && error instanceof Error && error.stack) {
+      console.error(chalk.gray(error.stack));
+    }
+
+    process.exit(error instanceof HeadlessTimeoutError ? 124 : 1);
+  }
+}
+
+/**
+ * Handle the 'resume' command - restart a saved session and replay its conversation
+ */
+async function handleResumeCommand(name: string | undefined, pick: boolean, options: CLIOptions): Promise<void> {
+  let session: SavedSessionInfo | null = null;
+
+  if (name) {
+    session = loadSessionOrExit(name);
+    if (!session) {
+      console.error(chalk.red(`❌ Saved session not found: ${name}`));
+      console.log(chalk.gray('Run `theater-chat resume --pick` to choose from saved sessions.'));
+      process.exit(1);
+    }
+  } else {
+    const sessions = listSavedSessions();
+    if (sessions.length === 0) {
+      console.log(chalk.yellow('No saved sessions found.'));
+      return;
+    }
+
+    if (pick) {
+      if (!process.stdin.isTTY) {
+        console.error(chalk.red('❌ --pick requires an interactive terminal'));
+        process.exit(1);
+      }
+      session = await pickSavedSession(sessions);
+    } else {
+      session = sessions[0] ?? null;
+    }
+  }
+
+  if (!session) {
+    return;
+  }
+
+  console.log(chalk.blue(`   Resuming session: ${chalk.bold(session.name)}`));
+  if (session.title) {
+    console.log(chalk.gray(`   Title: ${session.title}`));
+  }
+
+  await ensureSessionTrustedOrExit(session);
+
+  // Saves keep secrets as ${secret:NAME} references, resolved again here
+  let config = session.config;
+  try {
+    const restored = restoreSecretReferences(session.config, session.secretPaths);
+    config = restored.value;
+    for (const name of restored.missing) {
+      console.error(chalk.yellow(`⚠ Secret ${name} used by this session is not set (run \`theater-chat secrets set ${name}\`)`));
+    }
+    for (const name of restored.unrestored) {
+      console.error(chalk.yellow(`⚠ \${secret:${name}} in this session was not saved as a secret, so it is passed on as is`));
+    }
+  } catch (error) {
+    if (error instanceof SecretsError) {
+      console.error(chalk.red(`❌ ${error.message}`));
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  try {
+    await renderChatApp(options, config, session.configName, {
+      name: session.name,
+      history: getSessionHistory(session)
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`❌ Error: ${errorMessage}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Truncate text to at most `max` characters
+ */
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/**
+ * Format a byte count for display
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Load a saved session by name, exiting on invalid names
+ */
+function loadSessionOrExit(name: string): SavedSessionInfo | null {
+  try {
+    return loadSavedSession(name);
+  } catch (error) {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Handle 'sessions list' - show saved sessions with date, title, model and size
+ */
+function handleSessionsListCommand(options: { tagged?: string; config?: string }): void {
+  const sessions = listSavedSessions().filter(session =>
+    (!options.tagged || session.tags.includes(options.tagged)) &&
+    (!options.config || session.configName === options.config)
+  );
+
+  if (sessions.length === 0) {
+    console.log(chalk.yellow('No saved sessions found.'));
+    return;
+  }
+
+  for (const session of sessions) {
+    console.log(
+      `  ${chalk.green(session.name.padEnd(25))} ` +
+      `${chalk.gray(session.lastActiveAt.toLocaleString().padEnd(24))} ` +
+      `${truncate(session.title || '-', 28).padEnd(28)} ` +
+      `${chalk.cyan((session.model || '-').padEnd(28))} ` +
+      `${chalk.gray(formatSize(session.size).padEnd(9))}` +
+      `${session.tags.length > 0 ? chalk.magenta(session.tags.map(tag => `#${tag}`).join(' ')) : ''}`
+    );
+  }
+  console.log();
+  console.log(chalk.gray(`${sessions.length} saved session${sessions.length === 1 ? '' : 's'}`));
+}
+
+/**
+ * Handle 'sessions show' - print session details and saved conversation
+ */
+function handleSessionsShowCommand(name: string): void {
+  const session = loadSessionOrExit(name);
+  if (!session) {
+    console.error(chalk.red(`❌ Saved session not found: ${name}`));
+    process.exit(1);
+  }
+
+  console.log(`${chalk.blue('Session:')}  ${chalk.bold(session.name)}`);
+  console.log(`${chalk.blue('Path:')}     ${session.path}`);
+  console.log(`${chalk.blue('Created:')}  ${session.createdAt.toLocaleString()}`);
+  console.log(`${chalk.blue('Active:')}   ${session.lastActiveAt.toLocaleString()}`);
+  console.log(`${chalk.blue('Size:')}     ${formatSize(session.size)}`);
+  console.log(`${chalk.blue('Title:')}    ${session.title || '-'}`);
+  console.log(`${chalk.blue('Model:')}    ${session.model || '-'}`);
+  console.log(`${chalk.blue('Config:')}   ${session.configName || '-'}`);
+  console.log(`${chalk.blue('Tags:')}     ${session.tags.length > 0 ? session.tags.join(', ') : '-'}`);
+  console.log(`${chalk.blue('Manifest:')} ${session.config.actor.manifest_path}`);
+  if (session.domainActorId) {
+    console.log(`${chalk.blue('Actors:')}   ${session.domainActorId} (domain), ${session.chatActorId || '-'} (chat)`);
+  }
+
+  const history = getSessionHistory(session);
+  console.log();
+  if (history.length === 0) {
+    console.log(chalk.gray('No conversation recorded in this save.'));
+    return;
+  }
+
+  for (const message of history) {
+    const label = message.role === 'user' ? chalk.green('You:') : chalk.cyan('Assistant:');
+    for (const block of message.blocks) {
+      if (block.kind === 'tool_use') {
+        console.log(chalk.gray(`[tool] ${block.name}`));
+      }
+    }
+    if (message.text.trim()) {
+      console.log(`${label} ${message.text}`);
+    }
+  }
+}
+
+/**
+ * Handle 'sessions rename'
+ */
+function handleSessionsRenameCommand(name: string, newName: string): void {
+  try {
+    const renamed = renameSavedSession(name, newName);
+    console.log(chalk.green(`✓ Renamed ${name} to ${renamed}`));
+  } catch (error) {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Handle 'sessions delete'
+ */
+function handleSessionsDeleteCommand(name: string): void {
+  try {
+    deleteSavedSession(name);
+    console.log(chalk.green(`✓ Deleted ${name}`));
+  } catch (error) {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Handle 'sessions tag' - add or remove tags
+ */
+function handleSessionsTagCommand(name: string, tags: string[], remove: boolean): void {
+  try {
+    const result = remove ? tagSavedSession(name, [], tags) : tagSavedSession(name, tags);
+    console.log(chalk.green(`✓ Tags for ${name}: ${result.length > 0 ? result.join(', ') : '(none)'}`));
+  } catch (error) {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Handle 'sessions prune' - delete sessions by age and/or count
+ */
+function handleSessionsPruneCommand(options: { olderThan?: string; keep?: number; dryRun?: boolean }): void {
+  if (options.olderThan === undefined && options.keep === undefined) {
+    console.error(chalk.red('❌ Specify --older-than <duration> and/or --keep <count>'));
+    process.exit(1);
+  }
+
+  if (options.keep !== undefined && (isNaN(options.keep) || options.keep < 0)) {
+    console.error(chalk.red('❌ --keep must be a non-negative number'));
+    process.exit(1);
+  }
+
+  try {
+    const pruned = pruneSavedSessions({
+      olderThanMs: options.olderThan !== undefined ? parseDuration(options.olderThan) : undefined,
+      keep: options.keep,
+      dryRun: options.dryRun
+    });
+
+    if (pruned.length === 0) {
+      console.log(chalk.gray('Nothing to prune.'));
+      return;
+    }
+
+    const verb = options.dryRun ? 'Would delete' : 'Deleted';
+    for (const session of pruned) {
+      console.log(chalk.gray(`  ${verb} ${session.name} (${session.lastActiveAt.toLocaleString()})`));
+    }
+    console.log(chalk.green(`✓ ${verb} ${pruned.length} session${pruned.length === 1 ? '' : 's'}`));
+  } catch (error) {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Commander helper for repeatable options
+ */
+function collectValues(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Commander parser for whole-number options of at least 1
+ */
+function parsePositiveInt(value: string): number {
+  const parsed = Number(value.trim());
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError('Expected a whole number of at least 1.');
+  }
+  return parsed;
+}
+
+/**
+ * Handle the 'export' command - render a saved session's transcript
+ */
+function handleExportCommand(name: string, options: { format: string; output?: string }): void {
+  const format = parseExportFormat(options.format);
+  if (!format) {
+    console.error(chalk.red(`❌ Unknown export format: ${options.format}`));
+    console.error(chalk.gray('Valid formats: markdown, html, json'));
+    process.exit(1);
+  }
+
+  const session = loadSessionOrExit(name);
+  if (!session) {
+    console.error(chalk.red(`❌ Saved session not found: ${name}`));
+    process.exit(1);
+  }
+
+  const output = renderExport(buildSessionExport(session), format);
+
+  if (options.output) {
+    writeFileSync(options.output, output);
+    console.error(chalk.green(`✓ Exported ${session.name} to ${options.output}`));
+  } else {
+    process.stdout.write(output.endsWith('\n') ? output : `${output}\n`);
+  }
+}
+
+/**
+ * Highlight matched ranges of a search snippet
+ */
+function highlightSnippet(hit: SearchHit): string {
+  let result = '';
+  let cursor = 0;
+  for (const match of hit.matches) {
+    if (match.start < cursor) continue; // Skip overlapping matches
+    result += hit.snippet.slice(cursor, match.start) + chalk.bold.yellow(hit.snippet.slice(match.start, match.end));
+    cursor = match.end;
+  }
+  return result + hit.snippet.slice(cursor);
+}
+
+/**
+ * Parse a --since value: an ISO date or a duration before now
+ */
+function parseSince(value: string): Date {
+  if (/^\d+(\.\d+)?\s*[smhdw]$/.test(value.trim())) {
+    return new Date(Date.now() - parseDuration(value));
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid --since value: ${value} (expected YYYY-MM-DD or e.g. 7d)`);
+  }
+  return date;
+}
+
+/**
+ * Handle the 'search' command - print ranked hits across saved sessions
+ */
+function handleSearchCommand(
+  query: string,
+  options: { role?: string; since?: string; config?: string; tool?: string; limit: number }
+): void {
+  if (options.role && options.role !== 'user' && options.role !== 'assistant') {
+    console.error(chalk.red(`❌ Invalid --role: ${options.role} (expected user or assistant)`));
+    process.exit(1);
+  }
+
+  let hits: SearchHit[];
+  try {
+    hits = searchSessions(query, {
+      role: options.role as 'user' | 'assistant' | undefined,
+      since: options.since ? parseSince(options.since) : undefined,
+      config: options.config,
+      tool: options.tool,
+      limit: options.limit
+    });
+  } catch (error) {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+
+  if (hits.length === 0) {
+    console.log(chalk.yellow(`No matches for "${query}".`));
+    return;
+  }
+
+  for (const hit of hits) {
+    console.log(
+      `${chalk.green(hit.session.name)} ${chalk.gray(hit.timestamp.toLocaleString())} ` +
+      `${chalk.cyan(hit.role)}${hit.session.title ? chalk.gray(` · ${truncate(hit.session.title, 40)}`) : ''}`
+    );
+    console.log(`  ${highlightSnippet(hit)}`);
+  }
+
+  console.log();
+  console.log(chalk.gray('Resume with `theater-chat resume <name>` or export with `theater-chat export <name>`.'));
 }
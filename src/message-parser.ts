@@ -0,0 +1,216 @@
+/**
+ * Decoding of chat messages received over the chat actor channel.
+ *
+ * Both the interactive UI and headless mode consume the same `chat_message`
+ * payloads, so the content-block handling lives here rather than in a component.
+ * Their shape is defined and validated in protocol.ts.
+ */
+
+import { isUnknownContentBlock, parseChannelPayload, type ChatEntry, type ContentBlock } from './protocol.js';
+
+/**
+ * A content block decoded into a display-friendly shape
+ */
+export type DecodedBlock =
+  | { kind: 'text'; text: string }
+  | { kind: 'tool_use'; id?: string | undefined; name: string; args: any[]; input: any }
+  | { kind: 'tool_result'; toolUseId?: string | undefined; content: string | null; byteLength: number; isError: boolean };
+
+/**
+ * A decoded `chat_message` channel payload
+ */
+export interface DecodedChatMessage {
+  role: 'user' | 'assistant';
+  blocks: DecodedBlock[];
+  text: string;
+  stopReason: string | null;
+  entry: ChatEntry;
+  timestamp?: string | undefined;
+}
+
+/**
+ * Parse UTF-8 data from byte array
+ */
+export function parseEventData(data: number[]): string | null {
+  try {
+    const bytes = new Uint8Array(data);
+    const text = new TextDecoder('utf-8').decode(bytes);
+    // Check if it's printable text (basic heuristic)
+    if (text.length > 0 && /^[\x20-\x7E\s]*$/.test(text)) {
+      return text;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a value looks like a serialized byte array (array of numbers 0-255)
+ */
+function isByteArray(value: any): value is number[] {
+  return Array.isArray(value) && value.length > 0 &&
+    typeof value[0] === 'number' &&
+    value.every((v: any) => typeof v === 'number' && v >= 0 && v <= 255);
+}
+
+/**
+ * Decode any byte arrays in a tool input into displayable argument values
+ */
+function decodeToolInput(input: any): any[] {
+  if (!input) {
+    return [];
+  }
+
+  // Check if input itself is a byte array
+  if (isByteArray(input)) {
+    const decoded = parseEventData(input);
+    return [decoded || `[${input.length} bytes]`];
+  }
+
+  // Handle as object with properties that might contain byte arrays
+  return Object.values(input).map((value: any) => {
+    if (isByteArray(value)) {
+      const decoded = parseEventData(value);
+      return decoded || `[${value.length} bytes]`;
+    }
+    return value;
+  });
+}
+
+/**
+ * Decode a single content block, supporting both the Rust enum format and the legacy format.
+ * Blocks from saved sessions are not validated, so anything unrecognised decodes to null.
+ */
+export function decodeContentBlock(block: ContentBlock): DecodedBlock | null {
+  if (!block || typeof block !== 'object' || isUnknownContentBlock(block)) {
+    return null;
+  }
+
+  // New format: {"Text": "Hello world"}
+  if ('Text' in block) {
+    return block.Text ? { kind: 'text', text: block.Text } : null;
+  }
+
+  // New format: {"ToolUse": {id: "...", name: "...", input: {...}}}
+  // Note: the field is "input" not "arguments" based on the bindings
+  if ('ToolUse' in block) {
+    const toolUse = block.ToolUse;
+    return {
+      kind: 'tool_use',
+      id: toolUse?.id,
+      name: toolUse?.name || 'unknown',
+      args: decodeToolInput(toolUse?.input),
+      input: toolUse?.input
+    };
+  }
+
+  // New format: {"ToolResult": {tool_use_id: "...", content: [...bytes], is_error: false}}
+  if ('ToolResult' in block) {
+    const toolResult = block.ToolResult;
+    const rawContent = toolResult?.content;
+    return {
+      kind: 'tool_result',
+      toolUseId: toolResult?.tool_use_id,
+      content: Array.isArray(rawContent) ? parseEventData(rawContent) : null,
+      byteLength: Array.isArray(rawContent) ? rawContent.length : 0,
+      isError: Boolean(toolResult?.is_error)
+    };
+  }
+
+  // Legacy support - remove this block once fully migrated
+  if (block.type === 'text') {
+    // Old format: {"type": "text", "text": "Hello world"}
+    return block.text ? { kind: 'text', text: block.text } : null;
+  }
+  if (block.type === 'tool_use') {
+    // Old format: {"type": "tool_use", "name": "...", "input": {...}}
+    return {
+      kind: 'tool_use',
+      id: block.id,
+      name: block.name || 'unknown',
+      args: block.input && typeof block.input === 'object' ? Object.values(block.input) : [],
+      input: block.input
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Decode a raw channel message into a chat message, or null if it is not a `chat_message`.
+ * Throws a ProtocolError if the payload does not match the protocol.
+ */
+export function decodeChannelMessage(data: Uint8Array | number[]): DecodedChatMessage | null {
+  const payload = parseChannelPayload(data);
+  return payload ? decodeChatEntry(payload.message.entry) : null;
+}
+
+/**
+ * Decode a chat entry (`{Message: ...}` or `{Completion: ...}`) into a chat message
+ */
+export function decodeChatEntry(entry: ChatEntry): DecodedChatMessage {
+  // Entries from saved sessions are not validated, so either side may be missing
+  const message = entry && 'Message' in entry ? entry.Message : entry?.Completion;
+  const isUserMessage = !!entry && 'Message' in entry && entry.Message?.role === 'User'; // Note: capital 'U'
+  const content = message?.content;
+  const stopReason = message?.stop_reason || null;
+
+  const blocks: DecodedBlock[] = [];
+  if (Array.isArray(content)) {
+    for (const block of content) {
+      const decoded = decodeContentBlock(block);
+      if (decoded) {
+        blocks.push(decoded);
+      }
+    }
+  } else if (typeof content === 'string' && content.trim()) {
+    blocks.push({ kind: 'text', text: content });
+  }
+
+  const text = blocks
+    .filter((block): block is Extract<DecodedBlock, { kind: 'text' }> => block.kind === 'text')
+    .map(block => block.text)
+    .join('');
+
+  return {
+    role: isUserMessage ? 'user' : 'assistant',
+    blocks,
+    text,
+    stopReason,
+    entry
+  };
+}
+
+// Stop reason given to an assistant message whose reply the user cancelled
+export const INTERRUPTED_STOP_REASON = 'Interrupted';
+
+/**
+ * Check whether a stop reason marks the end of the assistant's turn
+ */
+export function isEndTurn(stopReason: string | null): boolean {
+  return stopReason === 'EndTurn' || stopReason === 'end_turn';
+}
+
+/**
+ * Format a decoded tool result for display, pretty-printing JSON content
+ */
+export function formatToolResult(block: Extract<DecodedBlock, { kind: 'tool_result' }>): string {
+  if (block.isError) {
+    return `❌ Tool Error: ${block.content || 'Tool execution failed'}`;
+  }
+
+  if (block.content) {
+    try {
+      // Try to parse as JSON for pretty formatting
+      const jsonData = JSON.parse(block.content);
+      return `🔧 Tool Result:\n${JSON.stringify(jsonData, null, 2)}`;
+    } catch {
+      // If not valid JSON, display as plain text
+      return `🔧 Tool Result: ${block.content}`;
+    }
+  }
+
+  // Fallback: display raw bytes if decoding fails
+  return `🔧 Tool Result: [${block.byteLength} bytes of binary data]`;
+}
@@ -0,0 +1,266 @@
+/**
+ * The task-manager protocol: requests sent to a domain actor, its responses, and the
+ * payloads the chat actor sends over the channel
+ *
+ * Every message has a zod schema here. Responses and channel payloads are validated on
+ * arrival, so a protocol change fails with a ProtocolError naming the message instead of
+ * rendering nothing.
+ */
+
+import { z } from 'zod/v4';
+import type { Actor } from 'theater-client';
+import { formatSchemaIssues } from './config-schema.js';
+
+// Longest excerpt of an invalid message quoted in a ProtocolError
+const MAX_EXCERPT_LENGTH = 200;
+
+/**
+ * Raised when a response or channel payload does not match the protocol
+ */
+export class ProtocolError extends Error {
+  constructor(
+    public readonly messageName: string,
+    public readonly issues: string[],
+    public readonly received: unknown
+  ) {
+    super(`Invalid ${messageName}: ${issues.join('; ')} (received ${excerpt(received)})`);
+    this.name = 'ProtocolError';
+  }
+}
+
+function excerpt(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+  return text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH)}...` : text;
+}
+
+// Content blocks, in the Rust enum format and the legacy `{type: ...}` format. Objects are
+// loose so fields added by newer actors are kept.
+
+const TextBlockSchema = z.looseObject({ Text: z.string() });
+
+const ToolUseBlockSchema = z.looseObject({
+  ToolUse: z.looseObject({
+    id: z.string().optional(),
+    name: z.string(),
+    input: z.unknown()
+  })
+});
+
+const ToolResultBlockSchema = z.looseObject({
+  ToolResult: z.looseObject({
+    tool_use_id: z.string().optional(),
+    // UTF-8 bytes of the result
+    content: z.array(z.number()).nullish(),
+    is_error: z.boolean().nullish()
+  })
+});
+
+const LegacyTextBlockSchema = z.looseObject({ type: z.literal('text'), text: z.string() });
+
+const LegacyToolUseBlockSchema = z.looseObject({
+  type: z.literal('tool_use'),
+  id: z.string().optional(),
+  name: z.string(),
+  input: z.unknown()
+});
+
+// Keys and legacy `type` values of the block kinds above
+const KNOWN_BLOCK_KEYS = ['Text', 'ToolUse', 'ToolResult'];
+const LEGACY_BLOCK_TYPES = ['text', 'tool_use'];
+
+function isKnownBlockKind(block: Record<string, unknown>): boolean {
+  return KNOWN_BLOCK_KEYS.some(key => key in block) || LEGACY_BLOCK_TYPES.includes(block['type'] as string);
+}
+
+// Kinds this version doesn't know (such as Thinking) are accepted but not displayed. A
+// malformed block of a known kind still fails.
+const UnknownBlockSchema = z
+  .looseObject({})
+  .refine(block => !isKnownBlockKind(block), 'Malformed content block')
+  .brand<'UnknownContentBlock'>();
+
+const KnownContentBlockSchema = z.union([
+  TextBlockSchema,
+  ToolUseBlockSchema,
+  ToolResultBlockSchema,
+  LegacyTextBlockSchema,
+  LegacyToolUseBlockSchema
+]);
+
+export const ContentBlockSchema = z.union([KnownContentBlockSchema, UnknownBlockSchema]);
+
+// Loose objects infer an index signature, which defeats `'Text' in block` narrowing, so the
+// types name only the known fields
+type KnownFields<T> = T extends unknown ? { [K in keyof T as string extends K ? never : K]: T[K] } : never;
+
+export type UnknownContentBlock = z.infer<typeof UnknownBlockSchema>;
+export type ContentBlock = KnownFields<z.infer<typeof KnownContentBlockSchema>> | UnknownContentBlock;
+
+/**
+ * Whether a content block is of a kind this version doesn't display
+ */
+export function isUnknownContentBlock(block: ContentBlock): block is UnknownContentBlock {
+  return !isKnownBlockKind(block as Record<string, unknown>);
+}
+
+// Plain text or content blocks
+const MessageContentSchema = z.union([z.string(), z.array(ContentBlockSchema)]);
+
+/**
+ * A conversation entry: a message (`role: 'User'` for the user) or a model completion
+ */
+export const ChatEntrySchema = z.union([
+  z.looseObject({
+    Message: z.looseObject({
+      role: z.enum(['User', 'Assistant']),
+      content: MessageContentSchema,
+      stop_reason: z.string().nullish()
+    })
+  }),
+  z.looseObject({
+    Completion: z.looseObject({
+      content: MessageContentSchema,
+      stop_reason: z.string().nullish()
+    })
+  })
+]);
+
+// Entries in a metadata history, either bare or wrapped with their own metadata
+const HistoryItemSchema = z.union([ChatEntrySchema, z.looseObject({ entry: ChatEntrySchema })]);
+
+export type ChatEntry = KnownFields<z.infer<typeof ChatEntrySchema>>;
+
+// Requests to the domain actor
+
+export const DomainRequestSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('GetChatStateActorId') }),
+  z.object({ type: z.literal('StartChat') }),
+  z.object({
+    type: z.literal('AddMessage'),
+    message: z.object({ role: z.literal('User'), content: z.array(ContentBlockSchema) })
+  }),
+  z.object({ type: z.literal('CancelGeneration') }),
+  z.object({ type: z.literal('get_metadata') }),
+  z.object({ type: z.literal('Describe') })
+]);
+
+export type DomainRequest = z.infer<typeof DomainRequestSchema>;
+export type DomainRequestType = DomainRequest['type'];
+
+// Responses from the domain actor
+
+const SuccessResponseSchema = z.object({ type: z.literal('Success') });
+const ErrorResponseSchema = z.object({ type: z.literal('Error'), message: z.string() });
+const SuccessOrErrorSchema = z.discriminatedUnion('type', [SuccessResponseSchema, ErrorResponseSchema]);
+
+// The chat state the actor holds; other fields are kept for saving the session
+const MetadataResponseSchema = z.looseObject({
+  type: z.string(),
+  messages: z.array(HistoryItemSchema).optional(),
+  history: z.array(HistoryItemSchema).optional()
+});
+
+const RESPONSE_SCHEMAS = {
+  GetChatStateActorId: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('ChatStateActorId'), actor_id: z.string().min(1) }),
+    ErrorResponseSchema
+  ]),
+  StartChat: SuccessOrErrorSchema,
+  AddMessage: SuccessOrErrorSchema,
+  CancelGeneration: SuccessOrErrorSchema,
+  get_metadata: MetadataResponseSchema,
+  Describe: z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('Description'),
+      name: z.string(),
+      version: z.string(),
+      // Request types the actor handles
+      requests: z.array(z.string())
+    }),
+    ErrorResponseSchema
+  ])
+} satisfies Record<DomainRequestType, z.ZodType>;
+
+export type DomainResponse<T extends DomainRequestType> = z.infer<(typeof RESPONSE_SCHEMAS)[T]>;
+export type MetadataResponse = DomainResponse<'get_metadata'>;
+
+/**
+ * What a domain actor handles, from its Describe response
+ */
+export interface ActorCapabilities {
+  // Null when the actor predates Describe
+  name: string | null;
+  version: string | null;
+  requests: ReadonlySet<string>;
+}
+
+// Requests theater-chat cannot run a chat without
+export const REQUIRED_REQUESTS: readonly DomainRequestType[] = ['GetChatStateActorId', 'AddMessage'];
+
+/**
+ * Capabilities of an actor that does not answer Describe: the requests theater-chat sent before
+ * actors could describe themselves. CancelGeneration is as new as Describe, so it is not assumed.
+ */
+export const UNDESCRIBED_CAPABILITIES: ActorCapabilities = {
+  name: null,
+  version: null,
+  requests: new Set<DomainRequestType>(['GetChatStateActorId', 'StartChat', 'AddMessage', 'get_metadata'])
+};
+
+/**
+ * Whether an actor handles a request type
+ */
+export function supportsRequest(capabilities: ActorCapabilities, type: DomainRequestType): boolean {
+  return capabilities.requests.has(type);
+}
+
+// Payloads on the chat actor channel
+
+const ChatMessagePayloadSchema = z.looseObject({
+  type: z.literal('chat_message'),
+  message: z.looseObject({ entry: ChatEntrySchema })
+});
+
+// Every payload names its type; types other than chat_message carry no conversation
+const ChannelEnvelopeSchema = z.looseObject({ type: z.string() });
+
+export type ChatMessagePayload = z.infer<typeof ChatMessagePayloadSchema>;
+
+/**
+ * Validate a protocol message, throwing a ProtocolError that names it. The message is returned
+ * as received rather than as parsed, so saving or transcribing it loses nothing.
+ */
+export function parseProtocolMessage<T extends z.ZodType>(schema: T, value: unknown, messageName: string): z.infer<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new ProtocolError(messageName, formatSchemaIssues(result.error), value);
+  }
+  return value as z.infer<T>;
+}
+
+/**
+ * Send a request to a domain actor and validate the response
+ */
+export async function requestDomainActor<R extends DomainRequest>(actor: Actor, request: R): Promise<DomainResponse<R['type']>> {
+  const response = await actor.requestJson(request);
+  return parseProtocolMessage(RESPONSE_SCHEMAS[request.type], response, `${request.type} response`) as DomainResponse<R['type']>;
+}
+
+/**
+ * Parse a raw channel message. Returns null for payloads other than chat_message.
+ */
+export function parseChannelPayload(data: Uint8Array | number[]): ChatMessagePayload | null {
+  const text = Buffer.from(data).toString('utf8');
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new ProtocolError('channel message', [error instanceof Error ? error.message : String(error)], text);
+  }
+
+  const envelope = parseProtocolMessage(ChannelEnvelopeSchema, value, 'channel message');
+  if (envelope.type !== 'chat_message') {
+    return null;
+  }
+  return parseProtocolMessage(ChatMessagePayloadSchema, value, 'chat_message channel payload');
+}
@@ -0,0 +1,529 @@
+/**
+ * Access to auto-saved chat sessions under `.theater-chat/saved/`
+ *
+ * Each save is a `<id>.json` config that restarts the actor from its metadata, with the
+ * conversation appended to `<id>.jsonl` as it happens (see transcript.ts).
+ * `index.json` records what each save was (config, actors, model, title, tags, times)
+ * so listing and resuming never have to parse filenames.
+ */
+
+import { readFileSync, existsSync, readdirSync, statSync, renameSync, unlinkSync, mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import chalk from 'chalk';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod/v4';
+import { getSavedChatsDir } from './config-resolver.js';
+import { decodeChatEntry, type DecodedChatMessage } from './message-parser.js';
+import { getTranscriptPath, readTranscript, transcriptToHistory } from './transcript.js';
+import { redactSecretsWithPaths } from './secrets.js';
+import { getSavedSessionTrustStatus, trustSavedSession, untrustSavedSession } from './trust.js';
+import { ChatConfig, ChatConfigSchema } from './types.js';
+
+const INDEX_FILENAME = 'index.json';
+
+export const SessionIndexEntrySchema = z.object({
+  id: z.string(),
+  config_name: z.string().nullable().default(null),
+  domain_actor_id: z.string().nullable().default(null),
+  chat_actor_id: z.string().nullable().default(null),
+  model: z.string().nullable().default(null),
+  title: z.string().nullable().default(null),
+  tags: z.array(z.string()).default([]),
+  created_at: z.string(),
+  last_active_at: z.string(),
+});
+
+const SessionIndexSchema = z.object({
+  version: z.literal(1),
+  sessions: z.array(SessionIndexEntrySchema),
+});
+
+export type SessionIndexEntry = z.infer<typeof SessionIndexEntrySchema>;
+type SessionIndex = z.infer<typeof SessionIndexSchema>;
+
+// A save is a config plus where its secret references go back on resume. Its initial state is
+// the actor's own metadata, kept as it was saved.
+const SavedSessionFileSchema = ChatConfigSchema.extend({
+  actor: ChatConfigSchema.shape.actor.extend({
+    initial_state: z.any().optional()
+  }),
+  secret_paths: z.array(z.string()).default([])
+});
+
+export interface SavedSessionInfo {
+  name: string;
+  path: string;
+  createdAt: Date;
+  lastActiveAt: Date;
+  size: number;
+  configName?: string | undefined;
+  domainActorId?: string | undefined;
+  chatActorId?: string | undefined;
+  title?: string | undefined;
+  model?: string | undefined;
+  tags: string[];
+  firstUserMessage?: string | undefined;
+  config: ChatConfig;
+  // JSON pointers into config of the `${secret:NAME}` references to restore on resume
+  secretPaths: string[];
+}
+
+/**
+ * A saved session being resumed, with the conversation to replay into the UI
+ */
+export interface ResumedSession {
+  name: string;
+  history: DecodedChatMessage[];
+}
+
+/**
+ * Details about a running chat recorded alongside its saved metadata
+ */
+export interface SessionSaveContext {
+  id?: string | undefined;
+  configName?: string | undefined;
+  domainActorId?: string | undefined;
+  chatActorId?: string | undefined;
+  tags?: string[] | undefined;
+}
+
+/**
+ * Strip an optional `saved/` prefix and `.json` suffix from a session name
+ */
+function normalizeSessionName(name: string): string {
+  return name.replace(/^saved\//, '').replace(/\.json$/, '');
+}
+
+/**
+ * Get the file path for a saved session name, rejecting names that escape the saved directory
+ */
+function getSavedSessionPath(name: string): string {
+  const sessionName = normalizeSessionName(name);
+  if (!sessionName || sessionName.includes('/') || sessionName.includes('\\') ||
+    sessionName.startsWith('.') || `${sessionName}.json` === INDEX_FILENAME) {
+    throw new Error(`Invalid session name: ${name}`);
+  }
+  return join(getSavedChatsDir(), `${sessionName}.json`);
+}
+
+/**
+ * Generate a timestamp-based prefix for session IDs
+ */
+function generateTimestamp(): string {
+  const now = new Date();
+  const month = (now.getMonth() + 1).toString();
+  const day = now.getDate().toString();
+  const year = now.getFullYear().toString().slice(-2);
+  const hour = now.getHours().toString().padStart(2, '0');
+  const minute = now.getMinutes().toString().padStart(2, '0');
+
+  return `${month}-${day}-${year}-${hour}${minute}`;
+}
+
+/**
+ * Generate a unique session ID: a readable timestamp plus a random suffix
+ */
+function generateSessionId(): string {
+  return `${generateTimestamp()}-${uuidv4().slice(0, 8)}`;
+}
+
+/**
+ * Read the session index, treating a missing or corrupt index as empty
+ */
+function readSessionIndex(): SessionIndex {
+  const indexPath = join(getSavedChatsDir(), INDEX_FILENAME);
+  if (!existsSync(indexPath)) {
+    return { version: 1, sessions: [] };
+  }
+
+  try {
+    return SessionIndexSchema.parse(JSON.parse(readFileSync(indexPath, 'utf8')));
+  } catch (error) {
+    console.error(chalk.yellow(`⚠ Could not read session index ${indexPath}: ${error instanceof Error ? error.message : String(error)}`));
+    return { version: 1, sessions: [] };
+  }
+}
+
+/**
+ * Write the session index atomically
+ */
+function writeSessionIndex(index: SessionIndex): void {
+  const savedDir = getSavedChatsDir();
+  mkdirSync(savedDir, { recursive: true });
+
+  const indexPath = join(savedDir, INDEX_FILENAME);
+  const tempPath = `${indexPath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(index, null, 2));
+  renameSync(tempPath, indexPath);
+}
+
+/**
+ * Apply a change to the session index and write it back
+ */
+function updateSessionIndex(update: (index: SessionIndex) => void): void {
+  const index = readSessionIndex();
+  update(index);
+  writeSessionIndex(index);
+}
+
+/**
+ * Pull the title and model out of chat-proxy metadata or initial state
+ */
+function describeInitialState(initialState: any): { title?: string; model?: string } {
+  const chatConfig = initialState?.config ?? initialState;
+  return {
+    title: chatConfig?.title,
+    model: chatConfig?.model_config?.model ?? chatConfig?.model_proxy?.model
+  };
+}
+
+/**
+ * Shorten a user message into a session title
+ */
+function titleFromMessage(message: string): string {
+  const singleLine = message.replace(/\s+/g, ' ').trim();
+  return singleLine.length > 60 ? `${singleLine.slice(0, 59)}…` : singleLine;
+}
+
+/**
+ * Save chat metadata under a new unique ID, or overwrite an existing save when resuming,
+ * and record the session in the index
+ */
+export function autoSaveChatSession(chatMetadata: any, context: SessionSaveContext = {}): string {
+  const id = context.id ? normalizeSessionName(context.id) : generateSessionId();
+  const savedPath = getSavedSessionPath(id);
+  mkdirSync(getSavedChatsDir(), { recursive: true });
+
+  // Secrets are resolved again from their references when the session is resumed, but only
+  // where they were redacted here
+  const { value: redacted, secretPaths } = redactSecretsWithPaths(chatMetadata);
+  writeFileSync(savedPath, JSON.stringify({ ...redacted, secret_paths: secretPaths }, null, 2));
+  // Our own saves can be resumed without asking; files from elsewhere need approval
+  trustSavedSession(savedPath);
+
+  const initialState = chatMetadata?.actor?.initial_state;
+  const { title, model } = describeInitialState(initialState);
+  const now = new Date().toISOString();
+
+  updateSessionIndex(index => {
+    const existing = index.sessions.find(entry => entry.id === id);
+    if (existing) {
+      existing.domain_actor_id = context.domainActorId ?? existing.domain_actor_id;
+      existing.chat_actor_id = context.chatActorId ?? existing.chat_actor_id;
+      existing.model = model ?? existing.model;
+      existing.title = existing.title ?? title ?? null;
+      existing.last_active_at = now;
+    } else {
+      index.sessions.push({
+        id,
+        config_name: context.configName ?? null,
+        domain_actor_id: context.domainActorId ?? null,
+        chat_actor_id: context.chatActorId ?? null,
+        model: model ?? null,
+        title: title ?? (initialState?.initial_message ? titleFromMessage(initialState.initial_message) : null),
+        tags: context.tags ?? [],
+        created_at: now,
+        last_active_at: now
+      });
+    }
+  });
+
+  // Later saves of the same session happen while the chat UI is up
+  if (!context.id) {
+    console.log(chalk.green(`   Chat saved at: saved/${id}`));
+  }
+
+  return id;
+}
+
+/**
+ * Record activity in a saved session, taking its title from the first user message if it has none
+ */
+export function recordSessionActivity(id: string, userMessage?: string): void {
+  updateSessionIndex(index => {
+    const entry = index.sessions.find(session => session.id === id);
+    if (!entry) {
+      return;
+    }
+    entry.last_active_at = new Date().toISOString();
+    if (!entry.title && userMessage?.trim()) {
+      entry.title = titleFromMessage(userMessage);
+    }
+  });
+}
+
+/**
+ * Extract the conversation recorded in chat metadata (a saved session's initial state, or
+ * `get_metadata` from a running actor).
+ * Entries use the same `{Message: ...}` / `{Completion: ...}` shape as channel messages.
+ */
+export function getMetadataHistory(metadata: any): DecodedChatMessage[] {
+  const items = metadata?.messages ?? metadata?.history;
+  if (!Array.isArray(items)) {
+    return [];
+  }
+
+  return items
+    .map((item: any) => decodeChatEntry(item?.entry ?? item))
+    .filter(isHistoryMessage);
+}
+
+/**
+ * Whether a message is part of the history as getMetadataHistory returns it, which leaves out
+ * messages with no content blocks it can decode
+ */
+export function isHistoryMessage(message: DecodedChatMessage): boolean {
+  return message.blocks.length > 0;
+}
+
+/**
+ * Get the conversation of a saved session, preferring its transcript over metadata
+ */
+export function getSessionHistory(session: SavedSessionInfo): DecodedChatMessage[] {
+  const transcript = readTranscript(session.name);
+  if (transcript.length > 0) {
+    return transcriptToHistory(transcript);
+  }
+  return getMetadataHistory(session.config.actor.initial_state);
+}
+
+/**
+ * Get the size of a file, or 0 if it does not exist
+ */
+function fileSize(path: string): number {
+  return existsSync(path) ? statSync(path).size : 0;
+}
+
+/**
+ * Read a saved session file, returning null if it is missing or invalid.
+ * Index metadata takes precedence; saves from before the index fall back to file details.
+ */
+function readSavedSession(name: string, path: string, entry?: SessionIndexEntry): SavedSessionInfo | null {
+  try {
+    const stats = statSync(path);
+    const { secret_paths: secretPaths, ...config } = SavedSessionFileSchema.parse(JSON.parse(readFileSync(path, 'utf8')));
+    const initialState = config.actor.initial_state;
+    const described = describeInitialState(initialState);
+    const transcript = readTranscript(name);
+    const history = transcript.length > 0 ? transcriptToHistory(transcript) : getMetadataHistory(initialState);
+    const firstUserMessage = history.find(message => message.role === 'user')?.text
+      || initialState?.initial_message;
+
+    return {
+      name,
+      path,
+      createdAt: entry ? new Date(entry.created_at) : stats.birthtime,
+      lastActiveAt: entry ? new Date(entry.last_active_at) : stats.mtime,
+      size: stats.size + fileSize(getTranscriptPath(name)),
+      configName: entry?.config_name ?? undefined,
+      domainActorId: entry?.domain_actor_id ?? undefined,
+      chatActorId: entry?.chat_actor_id ?? undefined,
+      title: entry?.title ?? described.title,
+      model: entry?.model ?? described.model,
+      tags: entry?.tags ?? [],
+      firstUserMessage,
+      config,
+      secretPaths
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List all saved sessions, most recently active first
+ */
+export function listSavedSessions(): SavedSessionInfo[] {
+  const savedDir = getSavedChatsDir();
+  if (!existsSync(savedDir)) {
+    return [];
+  }
+
+  const entries = new Map(readSessionIndex().sessions.map(entry => [entry.id, entry]));
+
+  const sessions: SavedSessionInfo[] = [];
+  for (const item of readdirSync(savedDir, { withFileTypes: true })) {
+    if (!item.isFile() || !item.name.endsWith('.json') || item.name === INDEX_FILENAME) {
+      continue;
+    }
+    const name = item.name.replace(/\.json$/, '');
+    const session = readSavedSession(name, join(savedDir, item.name), entries.get(name));
+    if (session) {
+      sessions.push(session);
+    }
+  }
+
+  return sessions.sort((a, b) => b.lastActiveAt.getTime() - a.lastActiveAt.getTime());
+}
+
+/**
+ * Load a saved session by name (with or without the `saved/` prefix)
+ */
+export function loadSavedSession(name: string): SavedSessionInfo | null {
+  const path = getSavedSessionPath(name);
+  if (!existsSync(path)) {
+    return null;
+  }
+  const sessionName = normalizeSessionName(name);
+  const entry = readSessionIndex().sessions.find(session => session.id === sessionName);
+  return readSavedSession(sessionName, path, entry);
+}
+
+/**
+ * Rename a saved session, refusing to overwrite an existing one
+ */
+export function renameSavedSession(name: string, newName: string): string {
+  const fromPath = getSavedSessionPath(name);
+  const toPath = getSavedSessionPath(newName);
+
+  if (!existsSync(fromPath)) {
+    throw new Error(`Saved session not found: ${name}`);
+  }
+  if (existsSync(toPath)) {
+    throw new Error(`A saved session named ${newName} already exists`);
+  }
+
+  const fromId = normalizeSessionName(name);
+  const toId = normalizeSessionName(newName);
+
+  // Approval follows the file, but a rename doesn't grant it
+  const wasTrusted = getSavedSessionTrustStatus(fromPath) === 'trusted';
+  renameSync(fromPath, toPath);
+  untrustSavedSession(fromPath);
+  if (wasTrusted) {
+    trustSavedSession(toPath);
+  }
+  if (existsSync(getTranscriptPath(fromId))) {
+    renameSync(getTranscriptPath(fromId), getTranscriptPath(toId));
+  }
+
+  updateSessionIndex(index => {
+    const entry = index.sessions.find(session => session.id === fromId);
+    if (entry) {
+      entry.id = toId;
+    }
+  });
+
+  return toId;
+}
+
+/**
+ * Delete a saved session
+ */
+export function deleteSavedSession(name: string): void {
+  const path = getSavedSessionPath(name);
+  if (!existsSync(path)) {
+    throw new Error(`Saved session not found: ${name}`);
+  }
+  unlinkSync(path);
+  untrustSavedSession(path);
+  removeTranscript(normalizeSessionName(name));
+  removeFromIndex([normalizeSessionName(name)]);
+}
+
+/**
+ * Add or remove tags on a saved session, returning the resulting tags
+ */
+export function tagSavedSession(name: string, add: string[], remove: string[] = []): string[] {
+  const session = loadSavedSession(name);
+  if (!session) {
+    throw new Error(`Saved session not found: ${name}`);
+  }
+
+  const tags = new Set(session.tags);
+  add.forEach(tag => tags.add(tag));
+  remove.forEach(tag => tags.delete(tag));
+  const result = Array.from(tags).sort();
+
+  updateSessionIndex(index => {
+    const entry = index.sessions.find(item => item.id === session.name);
+    if (entry) {
+      entry.tags = result;
+    } else {
+      // Saves from before the index get an entry on first edit
+      index.sessions.push({
+        id: session.name,
+        config_name: null,
+        domain_actor_id: null,
+        chat_actor_id: null,
+        model: session.model ?? null,
+        title: session.title ?? null,
+        tags: result,
+        created_at: session.createdAt.toISOString(),
+        last_active_at: session.lastActiveAt.toISOString()
+      });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Delete a session's transcript if it has one
+ */
+function removeTranscript(id: string): void {
+  const transcriptPath = getTranscriptPath(id);
+  if (existsSync(transcriptPath)) {
+    unlinkSync(transcriptPath);
+  }
+}
+
+/**
+ * Remove sessions from the index
+ */
+function removeFromIndex(ids: string[]): void {
+  updateSessionIndex(index => {
+    index.sessions = index.sessions.filter(entry => !ids.includes(entry.id));
+  });
+}
+
+export interface PruneOptions {
+  olderThanMs?: number | undefined;
+  keep?: number | undefined;
+  dryRun?: boolean | undefined;
+}
+
+/**
+ * Delete saved sessions older than a cutoff and/or beyond the most recent `keep`.
+ * Returns the sessions that were (or, with dryRun, would be) deleted.
+ */
+export function pruneSavedSessions(options: PruneOptions): SavedSessionInfo[] {
+  const sessions = listSavedSessions();
+  const cutoff = options.olderThanMs !== undefined ? Date.now() - options.olderThanMs : null;
+
+  const doomed = sessions.filter((session, index) =>
+    (cutoff !== null && session.lastActiveAt.getTime() < cutoff) ||
+    (options.keep !== undefined && index >= options.keep)
+  );
+
+  if (!options.dryRun && doomed.length > 0) {
+    for (const session of doomed) {
+      unlinkSync(session.path);
+      untrustSavedSession(session.path);
+      removeTranscript(session.name);
+    }
+    removeFromIndex(doomed.map(session => session.name));
+  }
+
+  return doomed;
+}
+
+/**
+ * Parse a duration such as `30d`, `12h`, `45m` or `2w` into milliseconds
+ */
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([smhdw])$/);
+  if (!match) {
+    throw new Error(`Invalid duration: ${value} (expected e.g. 30d, 12h, 45m)`);
+  }
+
+  const units: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000
+  };
+
+  return parseFloat(match[1]!) * units[match[2]!]!;
+}
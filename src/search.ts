@@ -0,0 +1,144 @@
+/**
+ * Full-text search across saved session transcripts
+ */
+
+import type { DecodedChatMessage } from './message-parser.js';
+import { listSavedSessions, getSessionHistory, type SavedSessionInfo } from './saved-sessions.js';
+
+export interface SearchOptions {
+  role?: 'user' | 'assistant' | undefined;
+  since?: Date | undefined;
+  config?: string | undefined;
+  tool?: string | undefined;
+  limit?: number | undefined;
+}
+
+export interface SearchHit {
+  session: SavedSessionInfo;
+  role: 'user' | 'assistant';
+  timestamp: Date;
+  snippet: string;
+  // Offsets of matched terms within the snippet, for highlighting
+  matches: Array<{ start: number; end: number }>;
+  score: number;
+}
+
+// Characters of context shown on each side of the first match
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * Flatten a message into searchable text, including tool names, inputs and results
+ */
+function searchableText(message: DecodedChatMessage): string {
+  return message.blocks.map(block => {
+    if (block.kind === 'text') {
+      return block.text;
+    } else if (block.kind === 'tool_use') {
+      return `[tool] ${block.name} ${JSON.stringify(block.args)}`;
+    } else {
+      return block.content ?? '';
+    }
+  }).join('\n');
+}
+
+/**
+ * Find all occurrences of the terms in a string (case-insensitive)
+ */
+function findMatches(text: string, terms: string[]): Array<{ start: number; end: number }> {
+  const lower = text.toLowerCase();
+  const matches: Array<{ start: number; end: number }> = [];
+  for (const term of terms) {
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      matches.push({ start: index, end: index + term.length });
+      index = lower.indexOf(term, index + term.length);
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Cut a single-line snippet around the first match and re-base the match offsets
+ */
+function buildSnippet(text: string, matches: Array<{ start: number; end: number }>): Pick<SearchHit, 'snippet' | 'matches'> {
+  const first = matches[0] ?? { start: 0, end: 0 };
+  const start = Math.max(0, first.start - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, first.end + SNIPPET_CONTEXT);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  // Newlines are replaced one-for-one so offsets stay valid
+  const snippet = prefix + text.slice(start, end).replace(/\s/g, ' ') + suffix;
+  const snippetMatches = matches
+    .filter(match => match.start >= start && match.end <= end)
+    .map(match => ({ start: match.start - start + prefix.length, end: match.end - start + prefix.length }));
+
+  return { snippet, matches: snippetMatches };
+}
+
+/**
+ * Check whether a session used a tool with the given name
+ */
+function sessionUsedTool(history: DecodedChatMessage[], tool: string): boolean {
+  return history.some(message =>
+    message.blocks.some(block => block.kind === 'tool_use' && block.name === tool)
+  );
+}
+
+/**
+ * Search every saved session for messages containing all query terms, best hits first.
+ * Hits score by term frequency, with a bonus for the exact phrase and for recent sessions.
+ */
+export function searchSessions(query: string, options: SearchOptions = {}): SearchHit[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return [];
+  }
+  const phrase = terms.join(' ');
+
+  const hits: SearchHit[] = [];
+  for (const session of listSavedSessions()) {
+    if (options.config && session.configName !== options.config) {
+      continue;
+    }
+
+    const history = getSessionHistory(session);
+    if (options.tool && !sessionUsedTool(history, options.tool)) {
+      continue;
+    }
+
+    for (const message of history) {
+      if (options.role && message.role !== options.role) {
+        continue;
+      }
+
+      const timestamp = message.timestamp ? new Date(message.timestamp) : session.lastActiveAt;
+      if (options.since && timestamp < options.since) {
+        continue;
+      }
+
+      const text = searchableText(message);
+      const lower = text.toLowerCase();
+      if (!terms.every(term => lower.includes(term))) {
+        continue;
+      }
+
+      const matches = findMatches(text, terms);
+      const ageDays = (Date.now() - timestamp.getTime()) / (24 * 60 * 60 * 1000);
+      const score = matches.length +
+        (terms.length > 1 && lower.includes(phrase) ? 5 : 0) +
+        1 / (1 + Math.max(0, ageDays));
+
+      hits.push({
+        session,
+        role: message.role,
+        timestamp,
+        score,
+        ...buildSnippet(text, matches)
+      });
+    }
+  }
+
+  hits.sort((a, b) => b.score - a.score);
+  return options.limit ? hits.slice(0, options.limit) : hits;
+}
@@ -0,0 +1,300 @@
+/**
+ * Secrets for configs: `${secret:NAME}` references and redaction
+ *
+ * Secret values come from THEATER_CHAT_SECRET_<NAME> environment variables or from
+ * `secrets.json` in the global config directory, which must only be readable by its owner.
+ * They are resolved at launch and never written out: saves, transcripts, exports and
+ * verbose logs have known secret values replaced by their `${secret:NAME}` reference and
+ * other values that look like credentials replaced by [REDACTED].
+ */
+
+import { chmodSync, existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { getGlobalConfigDir } from './config-resolver.js';
+
+export const SECRETS_FILE = 'secrets.json';
+
+export const REDACTED = '[REDACTED]';
+
+// Shorter values are too likely to occur by chance to be replaced everywhere they appear
+const MIN_REDACTED_LENGTH = 6;
+
+// Values that look like credentials whatever key they are under
+const SECRET_PATTERNS = [
+  /\bsk-ant-[A-Za-z0-9_-]{20,}/g,
+  /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g,
+  /\bgh[pousr]_[A-Za-z0-9]{30,}/g,
+  /\bgithub_pat_[A-Za-z0-9_]{30,}/g,
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bAIza[0-9A-Za-z_-]{35}/g
+];
+
+// Keys (and `--flag` arguments) whose values are credentials, e.g. api_key, ANTHROPIC_API_KEY, auth-token
+const SECRET_KEY = /(^|_)(api_?key|token|secret|password|passwd|credentials?)$|^authorization$/i;
+
+const SECRET_REFERENCE = /\$\{secret:([^}]+)\}/g;
+const WHOLE_SECRET_REFERENCE = /^\$\{secret:[^}]+\}$/;
+
+const SECRET_ENV_PREFIX = 'THEATER_CHAT_SECRET_';
+
+/**
+ * Raised for invalid secret names and a secrets file that is unreadable or too widely readable
+ */
+export class SecretsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretsError';
+  }
+}
+
+export function getSecretsPath(): string {
+  return join(getGlobalConfigDir(), SECRETS_FILE);
+}
+
+/**
+ * Environment variable for a secret, e.g. anthropic_key -> THEATER_CHAT_SECRET_ANTHROPIC_KEY
+ */
+export function secretEnvName(name: string): string {
+  return `${SECRET_ENV_PREFIX}${name.replace(/[^A-Za-z0-9]/g, '_').toUpperCase()}`;
+}
+
+function checkSecretName(name: string): void {
+  if (!/^[A-Za-z_][A-Za-z0-9_.-]*$/.test(name)) {
+    throw new SecretsError(`Invalid secret name "${name}" (use letters, digits, _, . and -)`);
+  }
+}
+
+/**
+ * Read the secrets file, refusing one that other users can read
+ */
+function readSecretsFile(): Record<string, string> {
+  const path = getSecretsPath();
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  if (process.platform !== 'win32' && (statSync(path).mode & 0o077) !== 0) {
+    throw new SecretsError(`${path} can be read by other users; run \`chmod 600 ${path}\``);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new SecretsError(`Could not read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw) ||
+    !Object.values(raw).every(value => typeof value === 'string')) {
+    throw new SecretsError(`${path} must be a JSON object of secret names to string values`);
+  }
+  return raw as Record<string, string>;
+}
+
+function writeSecretsFile(secrets: Record<string, string>): void {
+  const path = getSecretsPath();
+  mkdirSync(getGlobalConfigDir(), { recursive: true });
+  writeFileSync(path, `${JSON.stringify(secrets, null, 2)}\n`, { mode: 0o600 });
+  // The mode only applies when the file is created
+  chmodSync(path, 0o600);
+}
+
+/**
+ * Value of a secret (environment first, then the secrets file), or undefined if it is not set
+ */
+export function resolveSecret(name: string): string | undefined {
+  checkSecretName(name);
+  const fromEnv = process.env[secretEnvName(name)];
+  if (fromEnv !== undefined && fromEnv !== '') {
+    return fromEnv;
+  }
+  return readSecretsFile()[name];
+}
+
+/**
+ * Secrets set in the environment, named after the file entry they override if there is one
+ */
+function envSecrets(file: Record<string, string>): Array<{ name: string; value: string }> {
+  return Object.entries(process.env)
+    .filter((entry): entry is [string, string] => entry[0].startsWith(SECRET_ENV_PREFIX) && !!entry[1])
+    .map(([key, value]) => ({
+      name: Object.keys(file).find(name => secretEnvName(name) === key) ?? key.slice(SECRET_ENV_PREFIX.length).toLowerCase(),
+      value
+    }));
+}
+
+/**
+ * Names of the secrets that are set, with where each comes from (environment over file)
+ */
+export function listSecrets(): Array<{ name: string; source: 'env' | 'file' }> {
+  const file = readSecretsFile();
+  const secrets = new Map<string, 'env' | 'file'>(Object.keys(file).map(name => [name, 'file']));
+  for (const { name } of envSecrets(file)) {
+    secrets.set(name, 'env');
+  }
+  return [...secrets].map(([name, source]) => ({ name, source })).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Store a secret in the secrets file, returning the file path
+ */
+export function writeSecret(name: string, value: string): string {
+  checkSecretName(name);
+  const secrets = readSecretsFile();
+  secrets[name] = value;
+  writeSecretsFile(secrets);
+  return getSecretsPath();
+}
+
+/**
+ * Remove a secret from the secrets file. Returns false if it was not there.
+ */
+export function removeSecret(name: string): boolean {
+  const secrets = readSecretsFile();
+  if (!(name in secrets)) {
+    return false;
+  }
+  delete secrets[name];
+  writeSecretsFile(secrets);
+  return true;
+}
+
+/**
+ * Every secret value that is set, longest first so a value containing another is replaced whole
+ */
+function knownSecretValues(): Array<{ name: string; value: string }> {
+  let file: Record<string, string> = {};
+  try {
+    file = readSecretsFile();
+  } catch {
+    // An unreadable secrets file can't have been used, so there is nothing of it to redact
+  }
+
+  const values = [...Object.entries(file).map(([name, value]) => ({ name, value })), ...envSecrets(file)];
+  return values
+    .filter(({ value }) => value.length >= MIN_REDACTED_LENGTH)
+    .sort((a, b) => b.value.length - a.value.length);
+}
+
+// Conversation keys in saved metadata: secrets in messages are redacted but never restored
+const HISTORY_KEYS = new Set(['messages', 'history']);
+
+function replaceKnownSecrets(text: string, known: Array<{ name: string; value: string }>): string {
+  let result = text;
+  for (const { name, value } of known) {
+    result = result.split(value).join(`\${secret:${name}}`);
+  }
+  return result;
+}
+
+function redactPatterns(text: string): string {
+  let result = text;
+  for (const pattern of SECRET_PATTERNS) {
+    result = result.replace(pattern, REDACTED);
+  }
+  // --api-key=value style arguments
+  return result.replace(/(--?[A-Za-z-]+=)(\S+)/g, (match, flag: string, value: string) =>
+    isSecretKey(flag.slice(0, -1)) && !WHOLE_SECRET_REFERENCE.test(value) ? `${flag}${REDACTED}` : match);
+}
+
+function isSecretKey(key: string): boolean {
+  return SECRET_KEY.test(key.replace(/^-+/, '').replace(/-/g, '_'));
+}
+
+/**
+ * JSON pointer (RFC 6901) for a path of keys and indexes
+ */
+function toPointer(path: Array<string | number>): string {
+  return path.map(segment => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+function isHistoryPath(path: Array<string | number>): boolean {
+  return path.some(segment => typeof segment === 'string' && HISTORY_KEYS.has(segment));
+}
+
+/**
+ * Copy of a value with secrets removed: known secret values become `${secret:NAME}` and
+ * credential-looking values, including values of keys and flags such as `api_key` or
+ * `--token`, become [REDACTED]
+ */
+export function redactSecrets<T>(value: T): T {
+  return redactSecretsWithPaths(value).value;
+}
+
+/**
+ * redactSecrets, also returning the JSON pointers of the strings where known secret values were
+ * replaced by references, so that a save restores them there and nowhere else. Conversation
+ * history is redacted but never listed.
+ */
+export function redactSecretsWithPaths<T>(value: T): { value: T; secretPaths: string[] } {
+  const known = knownSecretValues();
+  const secretPaths: string[] = [];
+
+  const redact = (current: unknown, secretKey: boolean, path: Array<string | number>): unknown => {
+    if (typeof current === 'string') {
+      const referenced = replaceKnownSecrets(current, known);
+      if (referenced !== current && !isHistoryPath(path)) {
+        secretPaths.push(toPointer(path));
+      }
+      const redacted = redactPatterns(referenced);
+      return secretKey && !WHOLE_SECRET_REFERENCE.test(redacted) ? REDACTED : redacted;
+    }
+    if (Array.isArray(current)) {
+      // The value after a `--token` style flag is a secret
+      return current.map((item, index) => {
+        const previous = current[index - 1];
+        return redact(item, typeof previous === 'string' && previous.startsWith('-') && isSecretKey(previous), [...path, index]);
+      });
+    }
+    if (current && typeof current === 'object' && Object.getPrototypeOf(current) === Object.prototype) {
+      return Object.fromEntries(Object.entries(current).map(([key, child]) => [key, redact(child, isSecretKey(key), [...path, key])]));
+    }
+    return current;
+  };
+
+  return { value: redact(value, false, []) as T, secretPaths };
+}
+
+/**
+ * Copy of a saved config with the `${secret:NAME}` references at `secretPaths` (recorded when it
+ * was saved) put back, for relaunching a saved session. References anywhere else, including in
+ * the conversation, are left as they are, as are references to secrets that are no longer set.
+ */
+export function restoreSecretReferences<T>(
+  value: T,
+  secretPaths: string[]
+): { value: T; missing: string[]; unrestored: string[] } {
+  const restorable = new Set(secretPaths);
+  const missing = new Set<string>();
+  const unrestored = new Set<string>();
+
+  const restore = (current: unknown, path: Array<string | number>): unknown => {
+    if (typeof current === 'string') {
+      if (!restorable.has(toPointer(path)) || isHistoryPath(path)) {
+        if (!isHistoryPath(path)) {
+          for (const [, name] of current.matchAll(SECRET_REFERENCE)) {
+            unrestored.add(name!);
+          }
+        }
+        return current;
+      }
+      return current.replace(SECRET_REFERENCE, (reference, name: string) => {
+        const secret = resolveSecret(name);
+        if (secret === undefined) {
+          missing.add(name);
+          return reference;
+        }
+        return secret;
+      });
+    }
+    if (Array.isArray(current)) {
+      return current.map((item, index) => restore(item, [...path, index]));
+    }
+    if (current && typeof current === 'object' && Object.getPrototypeOf(current) === Object.prototype) {
+      return Object.fromEntries(Object.entries(current).map(([key, child]) => [key, restore(child, [...path, key])]));
+    }
+    return current;
+  };
+
+  return { value: restore(value, []) as T, missing: [...missing], unrestored: [...unrestored] };
+}
@@ -0,0 +1,333 @@
+/**
+ * User settings: the default server and config, UI preferences and session saving
+ *
+ * Settings come from `settings.json` in the global config directory, overridden by
+ * `.theater-chat/settings.json` at the project root, then by THEATER_CHAT_* environment
+ * variables. Command-line flags override all of them.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import chalk from 'chalk';
+import { z } from 'zod/v4';
+import { getGlobalConfigDir, getLocalConfigDir } from './config-resolver.js';
+import { parseDuration } from './saved-sessions.js';
+import { getProjectSettingsTrustStatus, trustProjectSettings } from './trust.js';
+
+export const SETTINGS_FILE = 'settings.json';
+
+export const SettingsSchema = z.object({
+  defaultConfig: z.string().min(1).describe('Config used when theater-chat is run without a config name'),
+  server: z.string().regex(/^[^\s:]+:\d+$/, 'Expected host:port').describe('Theater server address'),
+  toolDisplay: z.enum(['hidden', 'minimal', 'full']).describe('How tool calls are shown in the chat UI'),
+  autosave: z.boolean().describe('Save chats and their transcripts under .theater-chat/saved'),
+  retention: z.string().refine(value => {
+    try {
+      parseDuration(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Expected a duration such as 30d, 12h or 2w').nullable()
+    .describe('Prune saved sessions inactive for longer than this when a chat starts (null keeps them)'),
+  theme: z.enum(['dark', 'light']).describe('Message colors for dark or light terminal backgrounds'),
+  keybindings: z.enum(['vim', 'simple']).describe('vim: modal input, Enter in command mode sends; simple: Enter sends, Alt+Enter adds a line'),
+  verbose: z.boolean().describe('Enable verbose logging'),
+  discovery: z.enum(['git', 'root']).describe('Stop the search for .theater-chat at the git root or the filesystem root'),
+  mergeLayers: z.boolean().describe('Use every .theater-chat found walking up, not just the nearest'),
+});
+
+export type Settings = z.infer<typeof SettingsSchema>;
+export type SettingKey = keyof Settings;
+export type SettingSource = 'default' | 'global' | 'project' | 'env';
+
+export const DEFAULT_SETTINGS: Settings = {
+  defaultConfig: 'default',
+  server: '127.0.0.1:9000',
+  toolDisplay: 'minimal',
+  autosave: true,
+  retention: null,
+  theme: 'dark',
+  keybindings: 'vim',
+  verbose: false,
+  discovery: 'git',
+  mergeLayers: false
+};
+
+export const SETTING_KEYS = Object.keys(SettingsSchema.shape) as SettingKey[];
+
+// Settings a project settings file cannot change, and why: a cloned repository must not be able
+// to move the project
+const GLOBAL_ONLY_SETTINGS: Partial<Record<SettingKey, string>> = {
+  discovery: 'decides where the project is',
+  mergeLayers: 'decides where the project is'
+};
+
+// Settings a project settings file can change only once you approve the file, since a cloned
+// repository must not be able to send your configs and their secrets to another server
+export const APPROVAL_SETTINGS: readonly SettingKey[] = ['server'];
+
+/**
+ * Raised for unknown settings and invalid values given to `theater-chat settings`
+ */
+export class SettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SettingsError';
+  }
+}
+
+export function isSettingKey(key: string): key is SettingKey {
+  return (SETTING_KEYS as string[]).includes(key);
+}
+
+/**
+ * Environment variable for a setting, e.g. toolDisplay -> THEATER_CHAT_TOOL_DISPLAY
+ */
+export function settingEnvName(key: SettingKey): string {
+  return `THEATER_CHAT_${key.replace(/[A-Z]/g, letter => `_${letter}`).toUpperCase()}`;
+}
+
+/**
+ * Path of the global or project settings file
+ */
+export function getSettingsPath(scope: 'global' | 'project'): string {
+  return join(scope === 'global' ? getGlobalConfigDir() : getLocalConfigDir(), SETTINGS_FILE);
+}
+
+/**
+ * Validate a value for a setting, returning the parsed value or an error message
+ */
+function validateSetting(key: SettingKey, value: unknown): { value: any } | { error: string } {
+  const result = SettingsSchema.shape[key].safeParse(value);
+  return result.success ? { value: result.data } : { error: result.error.issues[0]?.message ?? 'Invalid value' };
+}
+
+/**
+ * Parse a command-line or environment value for a setting
+ */
+export function parseSettingValue(key: SettingKey, raw: string): any {
+  const word = raw.trim().toLowerCase();
+  let candidate: unknown = raw;
+  if (typeof DEFAULT_SETTINGS[key] === 'boolean') {
+    if (['true', '1', 'yes', 'on'].includes(word)) candidate = true;
+    if (['false', '0', 'no', 'off'].includes(word)) candidate = false;
+  } else if (word === 'null') {
+    // The other settings are strings; `null` clears a nullable one such as retention
+    candidate = null;
+  }
+
+  const result = validateSetting(key, candidate);
+  if ('error' in result) {
+    throw new SettingsError(`Invalid value for ${key}: ${raw} (${result.error})`);
+  }
+  return result.value;
+}
+
+// Warnings already printed, so reloading settings doesn't repeat them
+const reportedWarnings = new Set<string>();
+
+function warn(message: string): void {
+  if (!reportedWarnings.has(message)) {
+    reportedWarnings.add(message);
+    console.error(chalk.yellow(`⚠ ${message}`));
+  }
+}
+
+/**
+ * Read a settings file, skipping (with a warning) unknown keys and invalid values
+ */
+function readSettingsFile(path: string): Partial<Settings> {
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    warn(`Could not read settings ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    return {};
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    warn(`Settings in ${path} must be a JSON object`);
+    return {};
+  }
+
+  const settings: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === '$schema') continue;
+    if (!isSettingKey(key)) {
+      warn(`Unknown setting ${key} in ${path}`);
+      continue;
+    }
+    const result = validateSetting(key, value);
+    if ('error' in result) {
+      warn(`Invalid setting ${key} in ${path}: ${result.error}`);
+    } else {
+      settings[key] = result.value;
+    }
+  }
+  return settings as Partial<Settings>;
+}
+
+function readEnvSettings(): Partial<Settings> {
+  const settings: Record<string, unknown> = {};
+  for (const key of SETTING_KEYS) {
+    const raw = process.env[settingEnvName(key)];
+    if (raw === undefined || raw === '') continue;
+    try {
+      settings[key] = parseSettingValue(key, raw);
+    } catch (error) {
+      warn(`Ignoring ${settingEnvName(key)}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return settings as Partial<Settings>;
+}
+
+/**
+ * Resolve settings with the source each value came from (env over project over global over defaults)
+ */
+export function loadSettings(options: { includeProject?: boolean } = {}): {
+  settings: Settings;
+  sources: Record<SettingKey, SettingSource>;
+} {
+  const settings: Record<string, unknown> = { ...DEFAULT_SETTINGS };
+  const sources = Object.fromEntries(SETTING_KEYS.map(key => [key, 'default'])) as Record<SettingKey, SettingSource>;
+
+  const layers: Array<[SettingSource, Partial<Settings>]> = [['global', readSettingsFile(getSettingsPath('global'))]];
+  if (options.includeProject !== false) {
+    const project = readSettingsFile(getSettingsPath('project'));
+    for (const key of Object.keys(GLOBAL_ONLY_SETTINGS) as SettingKey[]) {
+      if (key in project) {
+        warn(`Setting ${key} is ignored in project settings; set it globally or with ${settingEnvName(key)}`);
+        delete project[key];
+      }
+    }
+    const unapproved = APPROVAL_SETTINGS.filter(key => key in project);
+    if (unapproved.length > 0 && !isProjectSettingsApproved()) {
+      warn(`Setting ${unapproved.join(', ')} in project settings is ignored until you approve it with \`theater-chat settings trust\``);
+      for (const key of unapproved) {
+        delete project[key];
+      }
+    }
+    layers.push(['project', project]);
+  }
+  layers.push(['env', readEnvSettings()]);
+
+  for (const [source, values] of layers) {
+    for (const [key, value] of Object.entries(values)) {
+      settings[key] = value;
+      sources[key as SettingKey] = source;
+    }
+  }
+
+  return { settings: settings as Settings, sources };
+}
+
+/**
+ * Current settings (env, project, global, defaults)
+ */
+export function getSettings(): Settings {
+  return loadSettings().settings;
+}
+
+/**
+ * Settings without the project layer, for config discovery (which decides where the project is)
+ */
+export function getUserSettings(): Settings {
+  return loadSettings({ includeProject: false }).settings;
+}
+
+/**
+ * Read a settings file as a plain object, keeping keys this version doesn't know
+ */
+function readRawSettings(path: string): Record<string, unknown> {
+  if (!existsSync(path)) {
+    return {};
+  }
+  try {
+    const raw = JSON.parse(readFileSync(path, 'utf8'));
+    if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
+      return raw;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new SettingsError(`Settings file ${path} is not a JSON object; fix or remove it first`);
+}
+
+/**
+ * Set a setting in the global or project settings file, returning the file path
+ */
+export function writeSetting(key: string, raw: string, scope: 'global' | 'project'): string {
+  if (!isSettingKey(key)) {
+    throw new SettingsError(`Unknown setting: ${key} (settings: ${SETTING_KEYS.join(', ')})`);
+  }
+  const globalOnly = GLOBAL_ONLY_SETTINGS[key];
+  if (scope === 'project' && globalOnly) {
+    throw new SettingsError(`${key} ${globalOnly}, so it can only be set globally`);
+  }
+
+  const value = parseSettingValue(key, raw);
+  const path = getSettingsPath(scope);
+  const settings = readRawSettings(path);
+  // Setting a value yourself approves it; otherwise the file stays as approved as it was
+  const approve = scope === 'project' && (APPROVAL_SETTINGS.includes(key) || isProjectSettingsApproved());
+  settings[key] = value;
+
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, `${JSON.stringify(settings, null, 2)}\n`);
+  if (approve) {
+    trustProjectSettings(path);
+  }
+  return path;
+}
+
+/**
+ * Remove a setting from the global or project settings file. Returns false if it was not set there.
+ */
+export function removeSetting(key: string, scope: 'global' | 'project'): boolean {
+  if (!isSettingKey(key)) {
+    throw new SettingsError(`Unknown setting: ${key} (settings: ${SETTING_KEYS.join(', ')})`);
+  }
+
+  const path = getSettingsPath(scope);
+  const settings = readRawSettings(path);
+  if (!(key in settings)) {
+    return false;
+  }
+  const approved = scope === 'project' && isProjectSettingsApproved();
+  delete settings[key];
+  writeFileSync(path, `${JSON.stringify(settings, null, 2)}\n`);
+  if (approved) {
+    trustProjectSettings(path);
+  }
+  return true;
+}
+
+/**
+ * Whether the project settings file is approved as it is now (see APPROVAL_SETTINGS)
+ */
+export function isProjectSettingsApproved(): boolean {
+  const path = getSettingsPath('project');
+  if (!existsSync(path)) {
+    return false;
+  }
+  const status = getProjectSettingsTrustStatus(path);
+  return status === 'trusted' || status === 'not-required';
+}
+
+/**
+ * Approve the project settings file as it is now. Returns the settings that need approval
+ * and are set in it.
+ */
+export function approveProjectSettings(): Partial<Settings> {
+  const path = getSettingsPath('project');
+  if (!existsSync(path)) {
+    throw new SettingsError(`There are no project settings to approve (${path} does not exist)`);
+  }
+  const project = readSettingsFile(path);
+  trustProjectSettings(path);
+  return Object.fromEntries(APPROVAL_SETTINGS.filter(key => key in project).map(key => [key, project[key]]));
+}
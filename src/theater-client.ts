@@ -2,8 +2,15 @@
  * Theater client wrapper for git workflows using task-manager
  */
 
-import { TheaterClient, Actor, ChannelStream, setLogLevel } from 'theater-client';
-import type { ChatConfig, ChatSession } from './types.js';
+import { TheaterClient, Actor, ChannelStream, TheaterConnectionError, TheaterTimeoutError, setLogLevel } from 'theater-client';
+import {
+  requestDomainActor,
+  REQUIRED_REQUESTS,
+  supportsRequest,
+  UNDESCRIBED_CAPABILITIES,
+  type ActorCapabilities,
+  type MetadataResponse
+} from './protocol.js';
 
 // Enhanced error handling for connection issues
 interface OperationContext {
@@ -52,6 +59,9 @@ async function withConnectionContext<T>(
 }
 
 function isConnectionError(error: Error): boolean {
+  if (error instanceof TheaterConnectionError || error instanceof TheaterTimeoutError) {
+    return true;
+  }
   const message = error.message.toLowerCase();
   return (
     message.includes('connection closed') ||
@@ -92,6 +102,21 @@ export function formatConnectionError(error: any): string {
   return error instanceof Error ? error.message : String(error);
 }
 
+// Backoff between attempts to reopen a dropped channel
+const RECONNECT_INITIAL_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+export interface ReconnectCallbacks {
+  // Called after a failed attempt, before waiting delayMs for the next one
+  onRetry?: (attempt: number, delayMs: number, error: Error) => void;
+  // Checked before each attempt; returning true abandons reconnection
+  isCancelled?: () => boolean;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 // New type for actor lifecycle callbacks
 export interface ActorLifecycleCallbacks {
   onActorExit?: (result: any) => void;
@@ -165,12 +190,12 @@ export class TheaterChatClient {
       taskManagerActor.id,
       { request: { type: 'GetChatStateActorId' } },
       async () => {
-        const response = await taskManagerActor.requestJson({
+        const response = await requestDomainActor(taskManagerActor, {
           type: 'GetChatStateActorId'
         });
 
-        if (response.type !== 'ChatStateActorId' || !response.actor_id) {
-          throw new Error(`Invalid response from task-manager: ${JSON.stringify(response)}`);
+        if (response.type === 'Error') {
+          throw new Error(`Failed to get chat state actor ID: ${response.message}`);
         }
 
         return response.actor_id;
@@ -178,48 +203,53 @@ export class TheaterChatClient {
     );
   }
 
-  async startSession(config: ChatConfig, callbacks?: ActorLifecycleCallbacks): Promise<ChatSession> {
-    const taskManagerActor = await this.client.startActor({
-      manifest: config.actor.manifest_path,
-      initialState: new TextEncoder().encode(JSON.stringify(config.actor.initial_state)),
-      onEvent: (event) => {
-        if (callbacks?.onActorEvent) {
-          callbacks.onActorEvent(event);
-        }
-      },
-      onError: (error) => {
-        if (callbacks?.onActorError) {
-          callbacks.onActorError(error);
-        }
-      },
-      onActorResult: (result) => {
-        if (result.type === 'Error') {
-          if (callbacks?.onActorError) {
-            callbacks.onActorError(result.error);
-          }
-        } else {
-          if (callbacks?.onActorExit) {
-            callbacks.onActorExit(result);
+  /**
+   * Ask a task-manager actor what it is and which requests it handles. Actors that don't
+   * understand Describe are assumed to handle the requests that predate it.
+   */
+  async describe(taskManagerActor: Actor): Promise<ActorCapabilities> {
+    return withConnectionContext(
+      'Describing actor',
+      taskManagerActor.id,
+      { request: { type: 'Describe' } },
+      async () => {
+        let response;
+        try {
+          response = await requestDomainActor(taskManagerActor, { type: 'Describe' });
+        } catch (error) {
+          // Older actors reject or misanswer requests they don't know
+          if (error instanceof Error && isConnectionError(error)) {
+            throw error;
           }
+          return UNDESCRIBED_CAPABILITIES;
         }
-      }
-    });
 
-    // Get chat-state actor ID from task-manager
-    const chatStateResponse = await taskManagerActor.requestJson({
-      type: 'GetChatStateActorId'
-    });
-
-    if (chatStateResponse.type !== 'ChatStateActorId' || !chatStateResponse.actor_id) {
-      throw new Error(`Invalid response from task-manager: ${JSON.stringify(chatStateResponse)}`);
-    }
+        if (response.type === 'Error') {
+          return UNDESCRIBED_CAPABILITIES;
+        }
 
-    const chatActorId = chatStateResponse.actor_id;
+        const capabilities: ActorCapabilities = {
+          name: response.name,
+          version: response.version,
+          requests: new Set(response.requests)
+        };
+        const missing = REQUIRED_REQUESTS.filter(type => !supportsRequest(capabilities, type));
+        if (missing.length > 0) {
+          throw new Error(`${response.name} ${response.version} does not support ${missing.join(' or ')}, which theater-chat needs to chat`);
+        }
+        return capabilities;
+      }
+    );
+  }
 
-    return {
-      domainActor: taskManagerActor,
-      chatActorId
-    };
+  /**
+   * Ask a started or attached task-manager actor what it handles, then for its chat state
+   * actor. Describe goes first, since what is sent after it depends on the answer.
+   */
+  async openSession(taskManagerActor: Actor): Promise<{ chatActorId: string; capabilities: ActorCapabilities }> {
+    const capabilities = await this.describe(taskManagerActor);
+    const chatActorId = await this.getChatStateActorId(taskManagerActor);
+    return { chatActorId, capabilities };
   }
 
   /**
@@ -231,21 +261,49 @@ export class TheaterChatClient {
       taskManagerActor.id,
       { request: { type: 'StartChat' } },
       async () => {
-        const response = await taskManagerActor.requestJson({
+        const response = await requestDomainActor(taskManagerActor, {
           type: 'StartChat'
         });
 
-        if (response.type === 'Success') {
-          return;
-        } else if (response.type === 'Error') {
+        if (response.type === 'Error') {
           throw new Error(`Failed to start git workflow: ${response.message}`);
-        } else {
-          throw new Error(`Invalid response from task-manager: ${JSON.stringify(response)}`);
         }
       }
     );
   }
 
+  /**
+   * Ask the task-manager actor to stop the reply it is generating
+   */
+  async cancelGeneration(taskManagerActor: Actor): Promise<void> {
+    return withConnectionContext(
+      'Cancelling generation',
+      taskManagerActor.id,
+      { request: { type: 'CancelGeneration' } },
+      async () => {
+        const response = await requestDomainActor(taskManagerActor, {
+          type: 'CancelGeneration'
+        });
+
+        if (response.type === 'Error') {
+          throw new Error(`Failed to cancel generation: ${response.message}`);
+        }
+      }
+    );
+  }
+
+  /**
+   * Fetch the chat state held by the task-manager actor
+   */
+  async getMetadata(taskManagerActor: Actor): Promise<MetadataResponse> {
+    return withConnectionContext(
+      'Fetching chat metadata',
+      taskManagerActor.id,
+      { request: { type: 'get_metadata' } },
+      () => requestDomainActor(taskManagerActor, { type: 'get_metadata' })
+    );
+  }
+
   /**
    * Send a message through the task-manager actor
    */
@@ -255,18 +313,16 @@ export class TheaterChatClient {
       taskManagerActor.id,
       { message: message.slice(0, 50) + (message.length > 50 ? '...' : '') },
       async () => {
-        const messageData = {
+        const response = await requestDomainActor(taskManagerActor, {
           type: 'AddMessage',
           message: {
             role: 'User',
-            content: [{ 'Text': message }]
+            content: [{ Text: message }]
           }
-        };
-
-        const response = await taskManagerActor.requestJson(messageData);
+        });
 
-        if (response.type !== 'Success') {
-          throw new Error(`Task manager rejected message: ${JSON.stringify(response)}`);
+        if (response.type === 'Error') {
+          throw new Error(`Task manager rejected message: ${response.message}`);
         }
       }
     );
@@ -286,6 +342,32 @@ export class TheaterChatClient {
     );
   }
 
+  /**
+   * Reopen the channel to a chat actor after its connection dropped. Retries with exponential
+   * backoff for as long as the server cannot be reached, so a server restart or a laptop waking
+   * from sleep is survived. Returns null if cancelled, and throws if the server answers but the
+   * channel cannot be opened (for example because the actor is gone).
+   */
+  async reconnectChannelStream(chatActorId: string, callbacks: ReconnectCallbacks = {}): Promise<ChannelStream | null> {
+    let delay = RECONNECT_INITIAL_DELAY_MS;
+    for (let attempt = 1; ; attempt++) {
+      await sleep(delay);
+      if (callbacks.isCancelled?.()) {
+        return null;
+      }
+
+      try {
+        return await this.openChannelStream(chatActorId);
+      } catch (error) {
+        if (!(error instanceof ConnectionError)) {
+          throw error;
+        }
+        delay = Math.min(delay * 2, RECONNECT_MAX_DELAY_MS);
+        callbacks.onRetry?.(attempt, delay, error.originalError);
+      }
+    }
+  }
+
   /**
    * Stop an actor
    */
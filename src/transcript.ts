@@ -0,0 +1,134 @@
+/**
+ * Append-only JSONL transcripts stored next to saved sessions (`saved/<id>.jsonl`)
+ *
+ * Every chat message is appended as it arrives, with its raw content blocks, so the
+ * conversation survives crashes, actor exits and Ctrl+C.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { getSavedChatsDir } from './config-resolver.js';
+import { decodeChatEntry, INTERRUPTED_STOP_REASON, type DecodedChatMessage } from './message-parser.js';
+import { redactSecrets } from './secrets.js';
+
+/**
+ * A chat message as received on the channel
+ */
+export interface TranscriptMessageRecord {
+  type: 'message';
+  timestamp: string;
+  role: 'user' | 'assistant';
+  stop_reason: string | null;
+  content: any[];
+}
+
+/**
+ * A session lifecycle event (actor exit, errors, connection loss)
+ */
+export interface TranscriptEventRecord {
+  type: 'event';
+  timestamp: string;
+  event: string;
+  detail?: string;
+}
+
+export type TranscriptRecord = TranscriptMessageRecord | TranscriptEventRecord;
+
+// Event recorded when the user cancels a reply; it marks the assistant message before it
+export const INTERRUPTED_EVENT = 'interrupted';
+
+/**
+ * Get the transcript path for a saved session ID
+ */
+export function getTranscriptPath(sessionId: string): string {
+  return join(getSavedChatsDir(), `${sessionId}.jsonl`);
+}
+
+/**
+ * Append a record to a session transcript
+ */
+function appendRecord(sessionId: string, record: TranscriptRecord): void {
+  mkdirSync(getSavedChatsDir(), { recursive: true });
+  appendFileSync(getTranscriptPath(sessionId), `${JSON.stringify(redactSecrets(record))}\n`);
+}
+
+/**
+ * Append a received chat message to a session transcript
+ */
+export function appendTranscriptMessage(sessionId: string, message: DecodedChatMessage): void {
+  const entry = message.entry;
+  const content = ('Message' in entry ? entry.Message : entry.Completion).content;
+
+  appendRecord(sessionId, {
+    type: 'message',
+    timestamp: new Date().toISOString(),
+    role: message.role,
+    stop_reason: message.stopReason,
+    content: typeof content === 'string' ? [{ Text: content }] : content
+  });
+}
+
+/**
+ * Append a lifecycle event to a session transcript
+ */
+export function appendTranscriptEvent(sessionId: string, event: string, detail?: string): void {
+  appendRecord(sessionId, {
+    type: 'event',
+    timestamp: new Date().toISOString(),
+    event,
+    ...(detail !== undefined ? { detail } : {})
+  });
+}
+
+/**
+ * Read all records from a session transcript, skipping lines that fail to parse
+ * (e.g. a partial line written during a crash)
+ */
+export function readTranscript(sessionId: string): TranscriptRecord[] {
+  const path = getTranscriptPath(sessionId);
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  const records: TranscriptRecord[] = [];
+  for (const line of readFileSync(path, 'utf8').split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      // Ignore truncated lines
+    }
+  }
+  return records;
+}
+
+/**
+ * Decode the chat messages recorded in a transcript. An assistant message followed by an
+ * interrupted event gets the Interrupted stop reason.
+ */
+export function transcriptToHistory(records: TranscriptRecord[]): DecodedChatMessage[] {
+  const history: DecodedChatMessage[] = [];
+  for (const record of records) {
+    if (record.type === 'event') {
+      const last = history[history.length - 1];
+      if (record.event === INTERRUPTED_EVENT && last?.role === 'assistant') {
+        last.stopReason = INTERRUPTED_STOP_REASON;
+      }
+      continue;
+    }
+
+    history.push({
+      ...decodeChatEntry({
+        Message: {
+          role: record.role === 'user' ? 'User' : 'Assistant',
+          content: record.content,
+          stop_reason: record.stop_reason
+        }
+      }),
+      timestamp: record.timestamp
+    });
+  }
+  return history;
+}
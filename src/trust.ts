@@ -0,0 +1,249 @@
+/**
+ * Trust records for project-local configs
+ *
+ * A config from a `.theater-chat/` directory can launch MCP server commands and actors, so
+ * it has to be approved before first use and again whenever its files change. Approvals are
+ * stored in `trusted.json` in the global config directory, keyed by config path, with a hash
+ * of the config and every file it extends.
+ *
+ * Saved sessions are kept in the project directory and relaunch what they were started with,
+ * so they are hashed too. theater-chat records each session it saves; one that arrived with
+ * the project has to be approved before it is resumed.
+ *
+ * A project settings file that sets the server is hashed the same way, and its server is only
+ * used once the file is approved.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join, resolve, sep } from 'path';
+import chalk from 'chalk';
+import { z } from 'zod/v4';
+import { getGlobalConfigDir, type ResolvedConfig } from './config-resolver.js';
+import { collectMcpServers } from './config-validator.js';
+import { redactSecrets } from './secrets.js';
+import type { ChatConfig } from './types.js';
+
+export const TRUST_FILE = 'trusted.json';
+
+const TrustEntrySchema = z.object({
+  hash: z.string(),
+  // The config followed by the files it extends, as hashed
+  files: z.array(z.string()),
+  trustedAt: z.string()
+});
+
+const TrustStoreSchema = z.object({
+  version: z.literal(1),
+  configs: z.record(z.string(), TrustEntrySchema),
+  // Saved session files, keyed by path
+  sessions: z.record(z.string(), TrustEntrySchema).default({}),
+  // Project settings files, keyed by path
+  settings: z.record(z.string(), TrustEntrySchema).default({})
+});
+
+export type TrustEntry = z.infer<typeof TrustEntrySchema>;
+type TrustStore = z.infer<typeof TrustStoreSchema>;
+
+// not-required: every file of the config is in the global config directory
+export type TrustStatus = 'trusted' | 'untrusted' | 'changed' | 'not-required';
+
+export interface TrustedConfig extends TrustEntry {
+  path: string;
+  status: 'trusted' | 'changed' | 'missing';
+}
+
+export function getTrustStorePath(): string {
+  return join(getGlobalConfigDir(), TRUST_FILE);
+}
+
+/**
+ * Read the trust store, treating a missing or corrupt store as empty (so everything is asked again)
+ */
+function readTrustStore(): TrustStore {
+  const storePath = getTrustStorePath();
+  if (!existsSync(storePath)) {
+    return { version: 1, configs: {}, sessions: {}, settings: {} };
+  }
+
+  try {
+    return TrustStoreSchema.parse(JSON.parse(readFileSync(storePath, 'utf8')));
+  } catch (error) {
+    console.error(chalk.yellow(`⚠ Could not read trusted configs ${storePath}: ${error instanceof Error ? error.message : String(error)}`));
+    return { version: 1, configs: {}, sessions: {}, settings: {} };
+  }
+}
+
+/**
+ * Write the trust store atomically
+ */
+function writeTrustStore(store: TrustStore): void {
+  const storePath = getTrustStorePath();
+  mkdirSync(getGlobalConfigDir(), { recursive: true });
+
+  const tempPath = `${storePath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, `${JSON.stringify(store, null, 2)}\n`);
+  renameSync(tempPath, storePath);
+}
+
+/**
+ * Hash the contents of a config and the files it extends
+ */
+export function hashConfigFiles(files: string[]): string {
+  const hash = createHash('sha256');
+  for (const file of files) {
+    hash.update(resolve(file)).update('\0').update(readFileSync(file)).update('\0');
+  }
+  return hash.digest('hex');
+}
+
+function configFiles(resolved: ResolvedConfig): string[] {
+  return [resolved.path, ...resolved.inherits].map(file => resolve(file));
+}
+
+function isInGlobalConfigDir(files: string[]): boolean {
+  const globalDir = resolve(getGlobalConfigDir()) + sep;
+  return files.every(file => file.startsWith(globalDir));
+}
+
+function entryStatus(entry: TrustEntry | undefined, files: string[]): TrustStatus {
+  if (!entry) {
+    return 'untrusted';
+  }
+  return entry.hash === hashConfigFiles(files) ? 'trusted' : 'changed';
+}
+
+function newTrustEntry(files: string[]): TrustEntry {
+  return {
+    hash: hashConfigFiles(files),
+    files,
+    trustedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Whether a resolved config needs approval and has it. Configs that are entirely in the global
+ * config directory are the user's own; anything else, including a global config that extends
+ * a project one, must be trusted.
+ */
+export function getTrustStatus(resolved: ResolvedConfig): TrustStatus {
+  const files = configFiles(resolved);
+  if (isInGlobalConfigDir(files)) {
+    return 'not-required';
+  }
+  return entryStatus(readTrustStore().configs[files[0]!], files);
+}
+
+/**
+ * Whether a saved session file is as theater-chat saved it, or as the user approved it
+ */
+export function getSavedSessionTrustStatus(path: string): TrustStatus {
+  const files = [resolve(path)];
+  if (isInGlobalConfigDir(files)) {
+    return 'not-required';
+  }
+  return entryStatus(readTrustStore().sessions[files[0]!], files);
+}
+
+/**
+ * Whether a project settings file is as the user approved it
+ */
+export function getProjectSettingsTrustStatus(path: string): TrustStatus {
+  const files = [resolve(path)];
+  if (isInGlobalConfigDir(files)) {
+    return 'not-required';
+  }
+  return entryStatus(readTrustStore().settings[files[0]!], files);
+}
+
+/**
+ * What starting a config will launch: the chat actor, MCP server commands and MCP actors
+ */
+export function describeLaunchTargets(resolvedConfig: ChatConfig): string[] {
+  const config = redactSecrets(resolvedConfig);
+  const targets = [`Actor manifest: ${config.actor.manifest_path}`];
+
+  for (const { server } of collectMcpServers(config)) {
+    if (server?.stdio?.command) {
+      const args: string[] = Array.isArray(server.stdio.args) ? server.stdio.args : [];
+      targets.push(`MCP command: ${[server.stdio.command, ...args].join(' ')}`);
+    } else if (server?.actor?.manifest_path) {
+      targets.push(`MCP actor manifest: ${server.actor.manifest_path}`);
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Record approval of a config as it is now
+ */
+export function trustConfig(resolved: ResolvedConfig): void {
+  const files = configFiles(resolved);
+  const store = readTrustStore();
+  store.configs[files[0]!] = newTrustEntry(files);
+  writeTrustStore(store);
+}
+
+/**
+ * Record a saved session file as it is now, after saving it or once the user approves it
+ */
+export function trustSavedSession(path: string): void {
+  const files = [resolve(path)];
+  const store = readTrustStore();
+  store.sessions[files[0]!] = newTrustEntry(files);
+  writeTrustStore(store);
+}
+
+/**
+ * Record approval of a project settings file as it is now
+ */
+export function trustProjectSettings(path: string): void {
+  const files = [resolve(path)];
+  const store = readTrustStore();
+  store.settings[files[0]!] = newTrustEntry(files);
+  writeTrustStore(store);
+}
+
+/**
+ * Forget a saved session file that was deleted or renamed
+ */
+export function untrustSavedSession(path: string): void {
+  const store = readTrustStore();
+  const key = resolve(path);
+  if (store.sessions[key]) {
+    delete store.sessions[key];
+    writeTrustStore(store);
+  }
+}
+
+/**
+ * Remove the approval of a config. Returns false if it was not trusted.
+ */
+export function untrustConfig(path: string): boolean {
+  const store = readTrustStore();
+  const key = resolve(path);
+  if (!store.configs[key]) {
+    return false;
+  }
+  delete store.configs[key];
+  writeTrustStore(store);
+  return true;
+}
+
+/**
+ * Every trusted config, with whether its files are unchanged since it was approved
+ */
+export function listTrustedConfigs(): TrustedConfig[] {
+  return Object.entries(readTrustStore().configs)
+    .map(([path, entry]): TrustedConfig => {
+      let status: TrustedConfig['status'];
+      if (!entry.files.every(file => existsSync(file))) {
+        status = 'missing';
+      } else {
+        status = hashConfigFiles(entry.files) === entry.hash ? 'trusted' : 'changed';
+      }
+      return { path, ...entry, status };
+    })
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -9,7 +9,7 @@ export type {
   ToolDisplayMode,
   ChatSession
 } from 'terminal-chat-ui';
-import { z } from 'zod';
+import { z } from 'zod/v4';
 
 export type ExecutionMode = 'task' | 'interactive';
 
@@ -22,37 +22,77 @@ export interface ChatConfig {
   };
 }
 */
-export const ChatConfigSchema = z.object({
-  actor: z.object({
-    manifest_path: z.string(),
-    initial_state: z.any().optional(), // Allow any structure for saved sessions and flexible configs
-  }),
+
+export const ModelConfigSchema = z.object({
+  model: z.string().describe('Model name, e.g. claude-sonnet-4-20250514'),
+  provider: z.string().describe('Model provider, e.g. anthropic, openai, google'),
 });
 
+const McpToolsSchema = z.array(z.string()).nullable().optional().describe('Names of the tools to offer from this server (null for all tools)');
 
-export interface ChatProxyInitialState {
-  // Core task definition
-  system_prompt?: string;
-  initial_message?: string;
+/**
+ * An MCP server is launched from a command (stdio), started from an actor manifest,
+ * or attached to an already running actor by ID
+ */
+export const McpServerSchema = z.union([
+  z.object({
+    actor_id: z.null().optional(),
+    stdio: z.object({
+      command: z.string().describe('Executable to launch'),
+      args: z.array(z.string()).optional().describe('Command-line arguments'),
+    }),
+    tools: McpToolsSchema,
+  }),
+  z.object({
+    actor_id: z.null().optional(),
+    actor: z.object({
+      manifest_path: z.string().describe('Path or URL of the MCP actor manifest'),
+      init_state: z.any().optional(),
+    }),
+    tools: McpToolsSchema,
+  }),
+  z.object({
+    actor_id: z.string().describe('ID of a running MCP actor'),
+    tools: McpToolsSchema,
+  }),
+], { error: 'Expected an MCP server with a `stdio` command, an `actor` manifest or an `actor_id`' });
 
-  // AI configuration  
-  model_config?: {
-    model: string;
-    provider: string;
-  };
-  temperature?: number;
-  max_tokens?: number;
+export const ChatProxyConfigSchema = z.object({
+  model_config: ModelConfigSchema.optional(),
+  model_proxy: z.object({
+    manifest_path: z.string(),
+    init_state: z.any().optional(),
+    model: z.string(),
+  }).optional().describe('Model proxy actor to route completions through'),
+  temperature: z.number().min(0).max(2).optional().describe('Sampling temperature (0-2)'),
+  max_tokens: z.number().int().positive().optional().describe('Maximum tokens in a response'),
+  system_prompt: z.string().optional(),
+  initial_message: z.string().optional().describe('Message sent when the chat starts'),
+  title: z.string().optional().describe('Display title for the chat session'),
+  mcp_servers: z.array(McpServerSchema).optional().describe('MCP servers providing tools'),
 
-  // Tool configuration
-  mcp_servers?: Array<{
-    actor_id?: string | null;
-    actor?: {
-      manifest_path: string;
-      init_state?: any;
-    };
-    tools?: any;
-  }>;
-}
+  // Git assistant actors
+  current_directory: z.string().optional().describe('Repository the git assistant works in'),
+  workflow: z.string().optional().describe('Git assistant workflow, e.g. commit'),
+});
+
+/**
+ * Initial state of a chat actor. Chat-proxy settings under `config` are checked; other keys
+ * are passed to the actor as they are.
+ */
+export const ActorInitialStateSchema = z.looseObject({
+  config: ChatProxyConfigSchema.optional(),
+});
+
+export const ChatConfigSchema = z.object({
+  actor: z.object({
+    manifest_path: z.string().describe('Path or URL of the chat actor manifest'),
+    initial_state: ActorInitialStateSchema.optional(),
+  }),
+  config: ChatProxyConfigSchema.optional(),
+});
+
+export type ChatProxyInitialState = z.infer<typeof ChatProxyConfigSchema>;
 
 export interface CLIOptions {
   directory?: string;
@@ -60,5 +100,17 @@ export interface CLIOptions {
   mode?: ExecutionMode;
   message?: string;
   verbose?: boolean;
+  tags?: string[];
+  set?: string[];
+  systemPromptFile?: string;
   help?: boolean;
+  // Domain actor to attach to instead of starting one
+  actorId?: string;
+  // Leave the domain actor running on exit
+  detach?: boolean;
+}
+
+export interface RunOptions extends CLIOptions {
+  showTools?: boolean;
+  timeout?: number;
 }
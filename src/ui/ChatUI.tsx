@@ -2,9 +2,11 @@
  * Git-focused chat UI component - simplified version
  */
 
-import { render, Box, Text, useStdin } from 'ink';
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { render, Box, Text, useApp, useInput, useStdin } from 'ink';
 import Spinner from 'ink-spinner';
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import {
   MessageComponent,
   HelpPanel,
@@ -18,15 +20,40 @@ import type { ChatSession, CLIOptions, ChatConfig, } from '../types.js';
 import { TheaterChatClient, type ActorLifecycleCallbacks, formatConnectionError } from '../theater-client.js';
 import { formatActorError } from '../error-parser.js';
 import { formatTheaterError, getServerAddress, shouldExitOnError } from '../enhanced-error-parser.js';
-import { autoSaveChatSession } from '../config-resolver.js';
-import type { ChannelStream } from 'theater-client';
+import { decodeChannelMessage, formatToolResult, isEndTurn, parseEventData, type DecodedChatMessage } from '../message-parser.js';
+import {
+  autoSaveChatSession,
+  getMetadataHistory,
+  isHistoryMessage,
+  recordSessionActivity,
+  loadSavedSession,
+  parseDuration,
+  pruneSavedSessions,
+  type ResumedSession
+} from '../saved-sessions.js';
+import { getSettings, type Settings } from '../settings.js';
+import { buildSessionExport, exportExtension, parseExportFormat, renderExport } from '../export.js';
+import { appendTranscriptEvent, appendTranscriptMessage, INTERRUPTED_EVENT } from '../transcript.js';
+import { redactSecrets } from '../secrets.js';
+import { supportsRequest, type ActorCapabilities } from '../protocol.js';
+import type { Actor, ChannelMessage, ChannelStream } from 'theater-client';
+
+// Two Esc presses within this many milliseconds cancel the reply being generated
+const DOUBLE_ESCAPE_MS = 500;
 
 interface ChatAppProps {
   options: {
     server?: string;
     verbose?: boolean;
+    tags?: string[];
+    actorId?: string;
+    detach?: boolean;
   };
-  config: ChatConfig;
+  // Null when attaching to a running actor (options.actorId)
+  config: ChatConfig | null;
+  configName?: string | undefined;
+  resume?: ResumedSession | undefined;
+  settings: Settings;
   onCleanupReady?: (cleanup: () => Promise<void>) => void;
 }
 
@@ -50,23 +77,6 @@ function formatEventTimestamp(timestamp: number): string {
   return date.toISOString().replace('T', ' ').replace('Z', '');
 }
 
-/**
- * Parse UTF-8 data from byte array
- */
-function parseEventData(data: number[]): string | null {
-  try {
-    const bytes = new Uint8Array(data);
-    const text = new TextDecoder('utf-8').decode(bytes);
-    // Check if it's printable text (basic heuristic)
-    if (text.length > 0 && /^[\x20-\x7E\s]*$/.test(text)) {
-      return text;
-    }
-    return null;
-  } catch {
-    return null;
-  }
-}
-
 /**
  * Format actor events for user-friendly display (theater CLI style)
  */
@@ -184,6 +194,22 @@ function LoadingIndicator() {
   );
 }
 
+// Message colors for light backgrounds; the dark theme keeps terminal-chat-ui's defaults
+const LIGHT_THEME_COLORS: Record<string, string> = {
+  user: 'gray',
+  assistant: 'black',
+  system: 'gray',
+  error: 'red'
+};
+
+/**
+ * MessageComponent color props for a role under a theme
+ */
+function themeColor(theme: Settings['theme'], role: string): { contentColor?: string } {
+  const color = theme === 'light' ? LIGHT_THEME_COLORS[role] : undefined;
+  return color ? { contentColor: color } : {};
+}
+
 /**
  * MultiLineInput wrapper with proper vim-style mode management
  */
@@ -192,11 +218,13 @@ function MultiLineInputWithModes({
   onSubmit,
   disabled,
   verbose,
+  keybindings,
 }: {
   placeholder: string;
   onSubmit: (content: string) => void;
   disabled: boolean;
   verbose: boolean;
+  keybindings: Settings['keybindings'];
 }) {
   const [content, setContent] = useState('');
   const [cursorPosition, setCursorPosition] = useState(0);
@@ -230,12 +258,15 @@ function MultiLineInputWithModes({
         onContentChange={setContent}
         onCursorChange={setCursorPosition}
         verbose={verbose}
+        keybindings={keybindings}
       />
 
       {/* Mode help text */}
       <Box paddingLeft={1}>
         <Text color="gray" dimColor>
-          {mode === 'insert' ? (
+          {keybindings === 'simple' ? (
+            "ENTER: send • ALT+ENTER: new line"
+          ) : mode === 'insert' ? (
             "ESC: command mode"
           ) : (
             "ENTER: send • i: insert mode • ESC: back to insert"
@@ -249,7 +280,7 @@ function MultiLineInputWithModes({
 /**
  * Main Chat application with simplified message handling
  */
-function ChatApp({ options, config, onCleanupReady }: ChatAppProps) {
+function ChatApp({ options, config, configName, resume, settings, onCleanupReady }: ChatAppProps) {
   const { isRawModeSupported, setRawMode, stdin } = useStdin();
 
   // Check for raw mode support
@@ -265,14 +296,37 @@ function ChatApp({ options, config, onCleanupReady }: ChatAppProps) {
 
   const [client, setClient] = useState<TheaterChatClient | null>(null);
   const [session, setSession] = useState<ChatSession | null>(null);
+  // What the domain actor says it handles; features it lacks are left out of the UI
+  const [capabilities, setCapabilities] = useState<ActorCapabilities | null>(null);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [channel, setChannel] = useState<ChannelStream | null>(null);
   const [setupStatus, setSetupStatus] = useState<SetupStatus>('connecting');
   const [setupMessage, setSetupMessage] = useState<string>('Connecting to Theater...');
-  const [toolDisplayMode, setToolDisplayMode] = useState<ToolDisplayMode>('minimal');
+  const [toolDisplayMode, setToolDisplayMode] = useState<ToolDisplayMode>(settings.toolDisplay);
   const [showHelp, setShowHelp] = useState<boolean>(false);
   const [actorHasExited, setActorHasExited] = useState<boolean>(false);
   const [setupEvents, setSetupEvents] = useState<string[]>([]);
+  const [savedSessionName, setSavedSessionName] = useState<string | null>(null);
+  // Shown while the channel is being reopened after the connection dropped
+  const [reconnectStatus, setReconnectStatus] = useState<string | null>(null);
+  // Messages typed while reconnecting, sent one per turn once the channel is back
+  const queuedMessages = useRef<string[]>([]);
+  // Read from channel callbacks, which would otherwise see stale state
+  const actorExitedRef = useRef<boolean>(false);
+  const closingRef = useRef<boolean>(false);
+  const cancellingRef = useRef<boolean>(false);
+  const lastEscapeRef = useRef<number>(0);
+  // Set when a reply is cancelled but the actor goes on with it, until that reply ends. Input
+  // stays disabled meanwhile, so a new message can't overlap the old turn.
+  const [hidingReply, setHidingReplyState] = useState<boolean>(false);
+  const hidingReplyRef = useRef<boolean>(false);
+  const setHidingReply = useCallback((hiding: boolean) => {
+    hidingReplyRef.current = hiding;
+    setHidingReplyState(hiding);
+  }, []);
+  // Saves the actor's current state under the saved session, once setup has saved it
+  const saveSessionRef = useRef<(() => Promise<void>) | null>(null);
+  const { exit } = useApp();
 
   // Enable raw mode for input capture
   useEffect(() => {
@@ -296,12 +350,44 @@ function ChatApp({ options, config, onCleanupReady }: ChatAppProps) {
     clearMessages
   } = useMessageState();
 
+  // Add a decoded chat message to the message list
+  const displayChatMessage = useCallback((chatMessage: DecodedChatMessage) => {
+    if (chatMessage.role === 'assistant') {
+      // Process all content blocks
+      for (const block of chatMessage.blocks) {
+        if (block.kind === 'tool_use') {
+          addToolMessage(block.name, block.args);
+        } else if (block.kind === 'tool_result') {
+          // Display tool results in the UI
+          if (block.byteLength > 0 || block.isError) {
+            addMessage(block.isError ? 'error' : 'system', formatToolResult(block));
+          }
+        }
+      }
+
+      // Add text content as a regular message if we have any
+      if (chatMessage.text.trim()) {
+        addMessage('assistant', chatMessage.text);
+      }
+    } else {
+      // Add user message directly, using the first text block
+      const firstBlock = chatMessage.blocks[0];
+      addMessage('user', firstBlock?.kind === 'text' ? firstBlock.text : '');
+    }
+  }, [addMessage, addToolMessage]);
+
   // Create cleanup function that can be called from outside
   const cleanup = useCallback(async () => {
     try {
       if (options.verbose) {
         console.log('\nCleaning up actors...');
       }
+      closingRef.current = true;
+
+      // Save where the conversation got to while the actor can still be asked
+      if (!actorExitedRef.current) {
+        await saveSessionRef.current?.();
+      }
 
       // Close channel first
       if (channel) {
@@ -312,8 +398,10 @@ function ChatApp({ options, config, onCleanupReady }: ChatAppProps) {
         }
       }
 
-      // Stop actor
-      if (session && client) {
+      // Stop actor, unless it should outlive this terminal
+      if (session && client && options.detach) {
+        console.log(`Left actor ${session.domainActor.id} running. Reattach with: theater-chat attach ${session.domainActor.id}`);
+      } else if (session && client) {
         await client.stopActor(session.domainActor);
         if (options.verbose) {
           console.log('Cleanup completed.');
@@ -325,7 +413,7 @@ function ChatApp({ options, config, onCleanupReady }: ChatAppProps) {
       }
       // Don't throw - we want to exit gracefully even if cleanup fails
     }
-  }, [client, session, channel, options.verbose]);
+  }, [client, session, channel, options.verbose, options.detach]);
 
   // Expose cleanup function to parent when ready
   useEffect(() => {
@@ -337,22 +425,43 @@ function ChatApp({ options, config, onCleanupReady }: ChatAppProps) {
   // Setup channel communication
   useEffect(() => {
     async function setupChannel() {
+      // ID of the saved session this chat is recorded under, once saved
+      let savedSessionId: string | null = null;
+
+      const recordEvent = (event: string, detail?: string) => {
+        if (!savedSessionId) return;
+        try {
+          appendTranscriptEvent(savedSessionId, event, detail);
+        } catch {
+          // Recording is best-effort during shutdown
+        }
+      };
+
       try {
         setSetupStatus('connecting');
         setSetupMessage('Connecting to Theater...');
 
-        const client = new TheaterChatClient(options.server || '127.0.0.1:9000', options.verbose || false);
+        // Replay the prior conversation when resuming a saved session
+        if (resume) {
+          for (const chatMessage of resume.history) {
+            displayChatMessage(chatMessage);
+          }
+        }
+
+        const client = new TheaterChatClient(getServerAddress(options), options.verbose || false);
         setClient(client);
 
         setSetupStatus('starting_actor');
-        setSetupMessage(`Spinning up Actor...`);
+        setSetupMessage(options.actorId ? `Attaching to actor ${options.actorId}...` : `Spinning up Actor...`);
 
         // Create actor lifecycle callbacks
         const actorCallbacks: ActorLifecycleCallbacks = {
           onActorExit: (result: any) => {
             //console.log('Domain actor exited:', result);
+            actorExitedRef.current = true;
             setActorHasExited(true);
             setIsGenerating(false);
+            recordEvent('actor_exit');
 
             // For other cases or chat mode, show the shutdown message
             addMessage('system', 'assistant has shut down.');
@@ -368,11 +477,13 @@ function ChatApp({ options, config, onCleanupReady }: ChatAppProps) {
             if (options.verbose) {
               console.error('Domain actor error:', JSON.stringify(error, null, 2));
             }
+            actorExitedRef.current = true;
             setActorHasExited(true);
             setIsGenerating(false);
             const serverAddress = getServerAddress(options);
             const errorMessage = formatTheaterError(error, serverAddress);
             addMessage('error', `assistant error: ${errorMessage}`);
+            recordEvent('actor_error', errorMessage);
 
             // Trigger app shutdown on error
             setTimeout(async () => {
@@ -384,23 +495,34 @@ function ChatApp({ options, config, onCleanupReady }: ChatAppProps) {
           onActorEvent: (event: any) => {
             // Optional: handle specific events if needed
             if (options.verbose) {
-              console.log('Domain actor event:', event);
+              console.log('Domain actor event:', redactSecrets(event));
             }
           }
         };
 
-        // Start domain actor with callbacks
-        if (options.verbose) {
-          console.log('Starting domain actor with: ', config)
+        // Attach to the running actor, or start a new one with callbacks
+        let domainActor: Actor;
+        if (!config) {
+          domainActor = await client.getActorById(options.actorId!);
+          setSetupMessage(`Attached to actor: ${domainActor.id}`);
+        } else {
+          if (options.verbose) {
+            console.log('Starting domain actor with: ', redactSecrets(config))
+          }
+          domainActor = await client.startDomainActor(
+            config.actor.manifest_path,
+            config.actor.initial_state,
+            actorCallbacks
+          );
+          setSetupMessage(`Actor started: ${domainActor.id}`);
         }
-        const domainActor = await client.startDomainActor(
-          config.actor.manifest_path,
-          config.actor.initial_state,
-          actorCallbacks
-        );
-        setSetupMessage(`Actor started: ${domainActor.id}`);
         setSetupStatus('loading_actor');
-        const chatActorId = await client.getChatStateActorId(domainActor);
+        const { chatActorId, capabilities } = await client.openSession(domainActor);
+        setCapabilities(capabilities);
+        if (capabilities.name) {
+          setSetupMessage(`Actor is ${capabilities.name} ${capabilities.version}`);
+        }
+        const canGetMetadata = supportsRequest(capabilities, 'get_metadata');
 
         const chatActor = await client.getActorById(chatActorId);
         // subscribe to the actor's events and print them to the console
@@ -436,195 +558,304 @@ function ChatApp({ options, config, onCleanupReady }: ChatAppProps) {
         };
         setSession(session);
 
-        setSetupStatus('opening_channel');
-        setSetupMessage('Opening communication channel...');
+        // Save the actor's state under the session, so that resuming restarts it where the
+        // transcript ends. Saves run one at a time: at startup, after each reply and on exit.
+        const writeSessionSave = async () => {
+          if (!settings.autosave || !config) {
+            return;
+          }
 
-        const channelStream = await client.openChannelStream(session.chatActorId);
+          // Without metadata (or an actor that can't provide it), fall back to the launch config so the transcript still has a home
+          let savedConfig: ChatConfig = {
+            actor: {
+              manifest_path: config.actor.manifest_path,
+              initial_state: config.actor.initial_state
+            }
+          };
+          if (canGetMetadata) {
+            try {
+              const metadataResponse = await client.getMetadata(domainActor);
+
+              // Remove the type wrapper and extract metadata
+              const { type, ...metadata } = metadataResponse;
+
+              // Merge original actor config with session metadata
+              savedConfig = {
+                actor: {
+                  manifest_path: config.actor.manifest_path,
+                  initial_state: metadata
+                }
+              };
+            } catch (error) {
+              if (options.verbose) {
+                console.error('Failed to get chat metadata:', error);
+              }
+              // Keep the last good save rather than overwrite it with the launch config
+              if (savedSessionId) {
+                return;
+              }
+            }
+          }
 
-        // Add error handling for channel stream
-        channelStream.onError((error) => {
+          try {
+            savedSessionId = autoSaveChatSession(savedConfig, {
+              id: savedSessionId ?? resume?.name,
+              configName,
+              domainActorId: domainActor.id,
+              chatActorId,
+              tags: options.tags
+            });
+            setSavedSessionName(savedSessionId);
+          } catch (error) {
+            if (options.verbose) {
+              console.error('Failed to save chat session:', error);
+            }
+            // Don't fail the chat if save fails
+          }
+        };
+
+        let pendingSave: Promise<void> = Promise.resolve();
+        const saveSession = (): Promise<void> => {
+          pendingSave = pendingSave.then(writeSessionSave);
+          return pendingSave;
+        };
+        saveSessionRef.current = saveSession;
+
+        // Chat messages seen so far (those the actor started with, then those received), so
+        // that after a reconnect only the ones missed while disconnected are shown. Counted as
+        // getMetadataHistory counts them, since resync slices its result.
+        let seenMessageCount = getMetadataHistory(config?.actor.initial_state).length;
+        // Set while the channel is being reopened and resynced
+        let reconnecting = false;
+
+        // Messages typed while disconnected go one per turn, each after the previous reply ends
+        const sendNextQueuedMessage = async () => {
+          const next = queuedMessages.current.shift();
+          if (next === undefined) {
+            return;
+          }
+          try {
+            setIsGenerating(true);
+            await client.sendMessage(domainActor, next);
+          } catch (error) {
+            addMessage('error', `Error sending queued message: ${formatTheaterError(error, getServerAddress(options))}`);
+            setIsGenerating(false);
+          }
+        };
+
+        const receiveChatMessage = (chatMessage: DecodedChatMessage) => {
+          if (isHistoryMessage(chatMessage)) {
+            seenMessageCount++;
+          }
+          const endsReply = chatMessage.role === 'assistant' && isEndTurn(chatMessage.stopReason);
+          // The rest of a reply the actor would not cancel is recorded but not shown
+          if (!(hidingReplyRef.current && chatMessage.role === 'assistant')) {
+            displayChatMessage(chatMessage);
+          }
+
+          if (savedSessionId) {
+            try {
+              appendTranscriptMessage(savedSessionId, chatMessage);
+              recordSessionActivity(savedSessionId, chatMessage.role === 'user' ? chatMessage.text : undefined);
+            } catch (error) {
+              if (options.verbose) {
+                console.error('Failed to record chat message:', error);
+              }
+            }
+          }
+
+          // Check if we're done generating
+          if (endsReply) {
+            setHidingReply(false);
+            setIsGenerating(false);
+            saveSession();
+            if (!reconnecting) {
+              sendNextQueuedMessage();
+            }
+          }
+        };
+
+        const handleChannelMessage = (message: ChannelMessage, alreadySeen?: (chatMessage: DecodedChatMessage) => boolean) => {
+          try {
+            const chatMessage = decodeChannelMessage(message.data);
+            if (chatMessage && !alreadySeen?.(chatMessage)) {
+              receiveChatMessage(chatMessage);
+            }
+          } catch (error) {
+            const serverAddress = getServerAddress(options);
+            const errorMessage = formatTheaterError(error, serverAddress);
+            addMessage('error', `Error: ${errorMessage}`);
+            setHidingReply(false);
+            setIsGenerating(false);
+          }
+        };
+
+        const handleChannelError = (error: Error) => {
           console.error('Channel stream error:', error);
           const errorMessage = formatConnectionError(error);
           addMessage('error', `Channel error: ${errorMessage}`);
+          recordEvent('channel_error', errorMessage);
           setIsGenerating(false);
-        });
+        };
 
-        channelStream.onClose(() => {
-          console.log('Channel stream closed');
-          if (!actorHasExited) {
-            addMessage('system', 'Connection to chat actor closed');
-            setActorHasExited(true);
+        // Show the messages the actor recorded while the channel was down, and return them
+        const resyncMissedMessages = async (): Promise<DecodedChatMessage[]> => {
+          if (!canGetMetadata) {
+            addMessage('system', 'This actor does not share its history, so messages sent while disconnected are not shown');
+            // Whether a hidden reply ended meanwhile can't be known, so stop waiting for it
+            setHidingReply(false);
+            return [];
           }
-        });
-
-        // Channel stream opened successfully
-        setSetupMessage('Channel connected');
+          try {
+            const history = getMetadataHistory(await client.getMetadata(domainActor));
+            const missed = history.slice(seenMessageCount);
+            missed.forEach(receiveChatMessage);
+            if (missed.length > 0) {
+              addMessage('system', `Caught up on ${missed.length} message${missed.length === 1 ? '' : 's'} sent while disconnected`);
+            }
+            return missed;
+          } catch (error) {
+            addMessage('error', `Could not load the messages missed while disconnected: ${error instanceof Error ? error.message : String(error)}`);
+            return [];
+          }
+        };
 
-        // Auto-save chat session metadata
-        try {
-          setSetupMessage('Saving chat session...');
-          // Get the chat actor instance and request metadata
-          //const chatActor = await client.getActorById(chatActorId);
-          const metadataResponse = await domainActor.requestJson({
-            type: 'get_metadata'
-          });
+        // Reopen the channel after the connection drops, then send anything typed meanwhile
+        const reconnectChannel = async () => {
+          addMessage('system', 'Connection to the Theater server lost, reconnecting...');
+          setReconnectStatus('Reconnecting...');
+          recordEvent('reconnecting');
+          reconnecting = true;
 
-          if (metadataResponse) {
-            // Remove the type wrapper and extract metadata
-            const { type, ...metadata } = metadataResponse;
+          try {
+            const stream = await client.reconnectChannelStream(chatActorId, {
+              isCancelled: () => actorExitedRef.current || closingRef.current,
+              onRetry: (attempt, delayMs, error) => {
+                setReconnectStatus(`Reconnecting... attempt ${attempt} failed (${error.message}), retrying in ${Math.round(delayMs / 1000)}s`);
+              }
+            });
+            if (!stream) {
+              return;
+            }
 
-            // Merge original actor config with session metadata
-            const savedConfig = {
-              actor: {
-                manifest_path: config.actor.manifest_path,
-                initial_state: metadata
+            // Messages arriving during the resync are held, then shown unless the resynced
+            // history already had them
+            let held: ChannelMessage[] | null = [];
+            stream.onError(handleChannelError);
+            stream.onClose(handleChannelClose);
+            stream.onMessage(message => held ? held.push(message) : handleChannelMessage(message));
+
+            const resynced = new Map<string, number>();
+            for (const chatMessage of await resyncMissedMessages()) {
+              const key = JSON.stringify(chatMessage.entry);
+              resynced.set(key, (resynced.get(key) ?? 0) + 1);
+            }
+            const alreadySeen = (chatMessage: DecodedChatMessage) => {
+              const key = JSON.stringify(chatMessage.entry);
+              const count = resynced.get(key) ?? 0;
+              if (count === 0) {
+                return false;
               }
+              resynced.set(key, count - 1);
+              return true;
             };
+            const heldMessages = held;
+            held = null;
+            for (const message of heldMessages) {
+              handleChannelMessage(message, alreadySeen);
+            }
+            setChannel(stream);
+            addMessage('system', 'Reconnected');
+            recordEvent('reconnected');
+          } catch (error) {
+            // The server is reachable again, but the chat actor can't be
+            const errorMessage = formatConnectionError(error);
+            addMessage('system', `Connection to chat actor closed: ${errorMessage}`);
+            recordEvent('reconnect_failed', errorMessage);
+            actorExitedRef.current = true;
+            setActorHasExited(true);
+            setIsGenerating(false);
+            return;
+          } finally {
+            reconnecting = false;
+            setReconnectStatus(null);
+          }
 
-            const filename = autoSaveChatSession(savedConfig);
-            setSetupMessage(`Chat saved as: saved/${filename}`);
+          // A hidden reply still running sends the next message when it ends
+          if (!hidingReplyRef.current) {
+            sendNextQueuedMessage();
           }
-        } catch (error) {
-          if (options.verbose) {
-            console.error('Failed to save chat session:', error);
+        };
+
+        const handleChannelClose = () => {
+          recordEvent('channel_closed');
+          if (actorExitedRef.current || closingRef.current) {
+            return;
           }
-          // Don't fail the whole setup if save fails
-        }
+          reconnectChannel();
+        };
 
-        setSetupStatus('loading_actor');
-        setSetupMessage('Loading chat actor...');
+        setSetupStatus('opening_channel');
+        setSetupMessage('Opening communication channel...');
+
+        const channelStream = await client.openChannelStream(session.chatActorId);
+
+        // Add error handling for channel stream
+        channelStream.onError(handleChannelError);
+        channelStream.onClose(handleChannelClose);
+
+        // Channel stream opened successfully
+        setSetupMessage('Channel connected');
 
-        channelStream.onMessage((message) => {
+        // Show the conversation so far when attaching
+        if (!config && !canGetMetadata) {
+          addMessage('system', 'This actor does not share its history, so earlier messages are not shown');
+        } else if (!config) {
           try {
-            const messageText = Buffer.from(message.data).toString('utf8');
-            const parsedMessage = JSON.parse(messageText);
-            if (parsedMessage.type === 'chat_message' && parsedMessage.message) {
-              const messageEntry = parsedMessage?.message?.entry;
-              const isUserMessage = messageEntry?.Message?.role === 'User'; // Note: capital 'U'
-
-              // Only process assistant messages
-              if (!isUserMessage) {
-                const messageContent = messageEntry?.Message?.content || messageEntry?.Completion?.content;
-                const stopReason = messageEntry?.Message?.stop_reason || messageEntry?.Completion?.stop_reason;
-
-                if (Array.isArray(messageContent)) {
-                  let textContent = '';
-                  // Process all content blocks
-                  for (const block of messageContent) {
-                    // Handle the new Rust enum format
-                    if (block?.Text) {
-                      // New format: {"Text": "Hello world"}
-                      textContent += block.Text;
-                    } else if (block?.ToolUse) {
-                      // New format: {"ToolUse": {id: "...", name: "...", input: {...}}}
-                      // Note: the field is "input" not "arguments" based on the bindings
-                      const toolUse = block.ToolUse;
-
-                      
-                      // Decode any byte arrays in the input before displaying
-                      let decodedInputValues: any[] = [];
-                      if (toolUse?.input) {
-                        // Check if input itself is a byte array
-                        if (Array.isArray(toolUse.input) && toolUse.input.length > 0 && 
-                            typeof toolUse.input[0] === 'number' && 
-                            toolUse.input.every((v: any) => typeof v === 'number' && v >= 0 && v <= 255)) {
-                          const decoded = parseEventData(toolUse.input);
-                          decodedInputValues = [decoded || `[${toolUse.input.length} bytes]`];
-                        } else {
-                          // Handle as object with properties that might contain byte arrays
-                          decodedInputValues = Object.values(toolUse.input).map((value: any) => {
-                            // Check if this looks like a byte array (array of numbers)
-                            if (Array.isArray(value) && value.length > 0 && 
-                                typeof value[0] === 'number' && value.every(v => typeof v === 'number' && v >= 0 && v <= 255)) {
-                              const decoded = parseEventData(value);
-                              return decoded || `[${value.length} bytes]`;
-                            }
-                            return value;
-                          });
-                        }
-                      }
-                      
-                      addToolMessage(toolUse?.name || 'unknown', decodedInputValues);
-                    } else if (block?.ToolResult) {
-                      // New format: {"ToolResult": {tool_use_id: "...", content: {...}, is_error: false}}
-                      const toolResult = block.ToolResult;
-
-                      // Display tool results in the UI
-                      if (toolResult?.content && !toolResult?.is_error) {
-                        // Handle successful tool result - content is JsonData (Vec<u8>)
-                        // Decode the byte array to readable text
-                        const decodedContent = parseEventData(toolResult.content);
-                        if (decodedContent) {
-                          try {
-                            // Try to parse as JSON for pretty formatting
-                            const jsonData = JSON.parse(decodedContent);
-                            const prettyJson = JSON.stringify(jsonData, null, 2);
-                            addMessage('system', `🔧 Tool Result:\n${prettyJson}`);
-                          } catch {
-                            // If not valid JSON, display as plain text
-                            addMessage('system', `🔧 Tool Result: ${decodedContent}`);
-                          }
-                        } else {
-                          // Fallback: display raw bytes if decoding fails
-                          addMessage('system', `🔧 Tool Result: [${toolResult.content.length} bytes of binary data]`);
-                        }
-                      } else if (toolResult?.is_error) {
-                        // Handle tool errors
-                        const errorContent = toolResult.content ? parseEventData(toolResult.content) : 'Unknown error';
-                        addMessage('error', `❌ Tool Error: ${errorContent || 'Tool execution failed'}`);
-                      }
-                    }
-
-                    // Legacy support - remove this block once fully migrated
-                    else if (block?.type === 'text' && block?.text) {
-                      // Old format: {"type": "text", "text": "Hello world"}
-                      textContent += block.text;
-                    } else if (block?.type === 'tool_use') {
-                      // Old format: {"type": "tool_use", "name": "...", "input": {...}}
-                      addToolMessage(block?.name || 'unknown',
-                        block?.input ? Object.values(block.input) : []);
-                    }
-                  }
-
-                  // Add text content as a regular message if we have any
-                  if (textContent.trim()) {
-                    addMessage('assistant', textContent);
-                  }
-                } else if (typeof messageContent === 'string' && messageContent.trim()) {
-                  // Add string content as a regular message
-                  addMessage('assistant', messageContent);
-                }
+            const history = getMetadataHistory(await client.getMetadata(domainActor));
+            for (const chatMessage of history) {
+              displayChatMessage(chatMessage);
+            }
+            seenMessageCount = history.length;
+          } catch (error) {
+            addMessage('error', `Could not load the chat history: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
 
-                // Check if we're done generating - handle new enum format
-                if (stopReason === 'EndTurn' || stopReason === 'end_turn') {
-                  setIsGenerating(false);
-                }
-              } else {
-                // Add user message directly
-                // Handle new format: content is array of {"Text": "..."} objects
-                const content = messageEntry?.Message?.content;
-                if (Array.isArray(content) && content.length > 0) {
-                  // Extract text from first content block
-                  const firstBlock = content[0];
-                  const userText = firstBlock?.Text || firstBlock?.text || ''; // Support both formats
-                  addMessage('user', userText);
-                } else {
-                  // Fallback for other formats
-                  addMessage('user', content || '');
-                }
+        // Auto-save chat session metadata (not when attached, as there is no manifest to restart from)
+        if (settings.autosave && config) {
+          setSetupMessage('Saving chat session...');
+          await saveSession();
+          if (savedSessionId) {
+            setSetupMessage(`Chat saved as: saved/${savedSessionId}`);
+          }
+
+          // Sessions inactive for longer than the retention setting are pruned once this one is saved
+          if (settings.retention) {
+            try {
+              const pruned = pruneSavedSessions({ olderThanMs: parseDuration(settings.retention) });
+              if (options.verbose && pruned.length > 0) {
+                console.log(`Pruned ${pruned.length} saved sessions older than ${settings.retention}`);
+              }
+            } catch (error) {
+              if (options.verbose) {
+                console.error('Failed to prune saved sessions:', error);
               }
             }
-          } catch (error) {
-            const serverAddress = getServerAddress(options);
-            const errorMessage = formatTheaterError(error, serverAddress);
-            addMessage('error', `Error: ${errorMessage}`);
-            setIsGenerating(false);
           }
-        });
+        }
+
+        setSetupStatus('loading_actor');
+        setSetupMessage('Loading chat actor...');
+
+        channelStream.onMessage(handleChannelMessage);
 
         setChannel(channelStream);
 
-        await client.startWorkflow(session.domainActor);
+        // An attached actor's chat is already running, and some actors need no setup
+        if (config && supportsRequest(capabilities, 'StartChat')) {
+          await client.startWorkflow(session.domainActor);
+        }
 
         setSetupStatus('ready');
         // Clear setup events now that we're ready
@@ -651,11 +882,46 @@ function ChatApp({ options, config, onCleanupReady }: ChatAppProps) {
     }
 
     setupChannel();
-  }, [addMessage, addToolMessage]);
+  }, [addMessage, addToolMessage, displayChatMessage]);
+
+  // Handle `/export [markdown|html|json] [path]` - write the saved transcript to a file
+  const exportChat = useCallback((args: string[]) => {
+    const format = parseExportFormat(args[0] || 'markdown');
+    if (!format) {
+      addMessage('error', `Unknown export format: ${args[0]} (use markdown, html or json)`);
+      return;
+    }
+
+    const savedSession = savedSessionName ? loadSavedSession(savedSessionName) : null;
+    if (!savedSession) {
+      addMessage('error', 'This chat has not been saved, so there is nothing to export');
+      return;
+    }
+
+    try {
+      const outputPath = resolve(args[1] || `${savedSession.name}.${exportExtension(format)}`);
+      writeFileSync(outputPath, renderExport(buildSessionExport(savedSession), format));
+      addMessage('system', `Exported chat to ${outputPath}`);
+    } catch (error) {
+      addMessage('error', `Export failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [savedSessionName, addMessage]);
 
   // Send message function
   const sendMessage = useCallback(async (messageText: string) => {
-    if (!client || !session || !channel || !messageText.trim() || isGenerating || actorHasExited) return;
+    const trimmed = messageText.trim();
+    if (trimmed === '/export' || trimmed.startsWith('/export ')) {
+      exportChat(trimmed.split(/\s+/).slice(1));
+      return;
+    }
+
+    if (reconnectStatus && trimmed && !actorHasExited) {
+      queuedMessages.current.push(trimmed);
+      addMessage('system', 'Not connected; the message will be sent on its own once reconnected');
+      return;
+    }
+
+    if (!client || !session || !channel || !messageText.trim() || isGenerating || hidingReply || actorHasExited) return;
 
     try {
       setIsGenerating(true);
@@ -669,7 +935,71 @@ function ChatApp({ options, config, onCleanupReady }: ChatAppProps) {
       addMessage('error', `Error sending message: ${errorMessage}`);
       setIsGenerating(false);
     }
-  }, [channel, client, session, addMessage, isGenerating, actorHasExited]);
+  }, [channel, client, session, addMessage, isGenerating, hidingReply, actorHasExited, reconnectStatus, exportChat]);
+
+  const canCancelGeneration = capabilities !== null && supportsRequest(capabilities, 'CancelGeneration');
+
+  // Stop the reply being generated and return to the prompt, without quitting. An actor that
+  // can't cancel keeps generating, so the rest of its reply is hidden instead.
+  const cancelGeneration = useCallback(async () => {
+    if (!client || !session || cancellingRef.current) return;
+    cancellingRef.current = true;
+
+    setIsGenerating(false);
+    addMessage('system', canCancelGeneration
+      ? 'Reply cancelled (Ctrl+C again to exit)'
+      : 'This actor cannot stop a reply, so the rest of it is hidden until it ends (Ctrl+C again to exit)');
+    if (savedSessionName) {
+      try {
+        appendTranscriptEvent(savedSessionName, INTERRUPTED_EVENT);
+      } catch (error) {
+        if (options.verbose) {
+          console.error('Failed to record the cancel:', error);
+        }
+      }
+    }
+
+    if (!canCancelGeneration) {
+      setHidingReply(true);
+      cancellingRef.current = false;
+      return;
+    }
+
+    try {
+      await client.cancelGeneration(session.domainActor);
+      saveSessionRef.current?.();
+    } catch (error) {
+      setHidingReply(true);
+      const errorMessage = formatTheaterError(error, getServerAddress(options));
+      addMessage('error', `The actor did not confirm the cancel, so the rest of the reply is hidden until it ends: ${errorMessage}`);
+    } finally {
+      cancellingRef.current = false;
+    }
+  }, [client, session, savedSessionName, addMessage, canCancelGeneration, setHidingReply]);
+
+  // Ctrl+C or Esc Esc cancels a reply in progress; otherwise Ctrl+C exits
+  useInput((input, key) => {
+    const canCancel = isGenerating && !actorHasExited && !reconnectStatus;
+
+    if (key.ctrl && input === 'c') {
+      if (canCancel && !cancellingRef.current) {
+        cancelGeneration();
+      } else {
+        exit();
+      }
+      return;
+    }
+
+    if (key.escape && canCancel) {
+      const now = Date.now();
+      if (now - lastEscapeRef.current < DOUBLE_ESCAPE_MS) {
+        lastEscapeRef.current = 0;
+        cancelGeneration();
+      } else {
+        lastEscapeRef.current = now;
+      }
+    }
+  });
 
   // Cleanup on unmount
   useEffect(() => {
@@ -690,16 +1020,21 @@ function ChatApp({ options, config, onCleanupReady }: ChatAppProps) {
         <Box flexDirection="column" alignItems="flex-start" >
           <Text color="gray"> management actor-id: {session.domainActor.id} </Text>
           <Text color="gray">       chat actor-id: {session.chatActorId} </Text>
+          {capabilities?.name && (
+            <Text color="gray">               actor: {capabilities.name} {capabilities.version} </Text>
+          )}
         </Box>
       )}
 
       {showHelp && (
         <HelpPanel
           shortcuts={[
-            { key: 'Ctrl+C', description: 'Exit' },
+            { key: 'Ctrl+C', description: `${canCancelGeneration ? 'Cancel' : 'Hide'} the reply while generating, otherwise exit` },
+            { key: 'Esc Esc', description: `${canCancelGeneration ? 'Cancel' : 'Hide'} the reply while generating` },
             { key: 'Ctrl+L', description: 'Clear messages' },
             { key: 'Ctrl+T', description: 'Toggle tool display' },
-            { key: 'Ctrl+H', description: 'Toggle help' }
+            { key: 'Ctrl+H', description: 'Toggle help' },
+            { key: '/export [format] [path]', description: 'Export chat (markdown, html, json)' }
           ]}
         />
       )}
@@ -722,6 +1057,7 @@ function ChatApp({ options, config, onCleanupReady }: ChatAppProps) {
                   key={index}
                   message={message}
                   toolDisplayMode={toolDisplayMode}
+                  {...themeColor(settings.theme, message.role)}
                   prefixOverrides={{
                     user: '',
                     assistant: '',
@@ -732,21 +1068,31 @@ function ChatApp({ options, config, onCleanupReady }: ChatAppProps) {
               ))}
 
               {/* Show loading indicator when generating (but not if actor has exited) */}
-              {isGenerating && !actorHasExited && <LoadingIndicator />}
+              {isGenerating && !actorHasExited && !reconnectStatus && <LoadingIndicator />}
             </>
           </Box>
 
+          {reconnectStatus && (
+            <Box paddingLeft={1}>
+              <Spinner type="dots" />
+              <Text color="yellow"> {reconnectStatus}</Text>
+            </Box>
+          )}
+
           {/* Conditional input rendering based on mode */}
           <Box width="100%" paddingLeft={1} paddingRight={1} paddingBottom={1}>
             <Box width="100%">
               <MultiLineInputWithModes
                 placeholder={
                   actorHasExited ? "Assistant has shut down" :
-                    isGenerating ? "Processing..." : "Message: "
+                    reconnectStatus ? "Reconnecting (messages are sent once connected)..." :
+                      isGenerating ? "Processing..." :
+                        hidingReply ? "Waiting for the hidden reply to end..." : "Message: "
                 }
                 onSubmit={sendMessage}
-                disabled={isGenerating || actorHasExited}
+                disabled={((isGenerating || hidingReply) && !reconnectStatus) || actorHasExited}
                 verbose={options.verbose || false}
+                keybindings={settings.keybindings}
               />
             </Box>
           </Box>
@@ -757,11 +1103,14 @@ function ChatApp({ options, config, onCleanupReady }: ChatAppProps) {
 }
 
 /**
- * Render the Chat app with proper cleanup handling
+ * Render the Chat app with proper cleanup handling. Pass a null config to attach to the
+ * running actor in options.actorId.
  */
 export async function renderChatApp(
   options: CLIOptions,
-  config: ChatConfig
+  config: ChatConfig | null,
+  configName?: string,
+  resume?: ResumedSession
 ): Promise<void> {
   let app: any = null;
   let appCleanup: (() => Promise<void>) | null = null;
@@ -794,11 +1143,13 @@ export async function renderChatApp(
         console.log(`\nReceived ${signal}, cleaning up...`);
       }
       await cleanup();
-      process.exit(signal === 'SIGINT' ? 130 : 143); // Standard exit codes
+      process.exit({ SIGINT: 130, SIGHUP: 129 }[signal] ?? 143); // Standard exit codes
     };
 
     process.on('SIGINT', () => handleSignal('SIGINT'));
     process.on('SIGTERM', () => handleSignal('SIGTERM'));
+    // The terminal closing; the actor is stopped unless --detach was given
+    process.on('SIGHUP', () => handleSignal('SIGHUP'));
 
     // Also handle process exit
     process.on('exit', async () => {
@@ -814,17 +1165,22 @@ export async function renderChatApp(
     // Set up signal handlers early
     setupSignalHandlers();
 
+    // Ctrl+C is handled by ChatApp, which cancels a reply in progress before exiting
     app = render(
       <ChatApp
         options={options}
         config={config}
+        configName={configName}
+        resume={resume}
+        settings={getSettings()}
         onCleanupReady={(cleanupFn) => {
           appCleanup = cleanupFn;
           if (options.verbose) {
             console.log('Cleanup handlers registered');
           }
         }}
-      />
+      />,
+      { exitOnCtrlC: false }
     );
 
     // Wait for the app to finish (in case of workflow mode auto-exit)
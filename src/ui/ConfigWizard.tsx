@@ -0,0 +1,377 @@
+/**
+ * Interactive wizard for `theater-chat new`
+ */
+
+import { render, Box, Text, useApp, useInput, useStdin } from 'ink';
+import TextInput from 'ink-text-input';
+import { existsSync, readFileSync } from 'fs';
+import { useEffect, useState } from 'react';
+import {
+  PROVIDERS,
+  DEFAULT_CHAT_MANIFEST,
+  getNewConfigPath,
+  parseStdioCommand,
+  type McpServerAnswer,
+  type NewConfigAnswers
+} from '../config-builder.js';
+
+export interface WizardResult {
+  answers: NewConfigAnswers;
+  overwrite: boolean;
+}
+
+interface ConfigWizardProps {
+  name?: string | undefined;
+  onDone: (result: WizardResult | null) => void;
+}
+
+type Step =
+  | 'name' | 'provider' | 'model' | 'temperature' | 'maxTokens'
+  | 'promptSource' | 'promptInline' | 'promptFile'
+  | 'mcpMenu' | 'mcpStdio' | 'mcpActor'
+  | 'target' | 'confirm';
+
+interface Option<T> {
+  label: string;
+  value: T;
+}
+
+interface SelectProps<T> {
+  options: Option<T>[];
+  onSelect: (value: T) => void;
+}
+
+/**
+ * Vertical list of options chosen with ↑↓/jk and Enter
+ */
+function Select<T>({ options, onSelect }: SelectProps<T>) {
+  const [selected, setSelected] = useState(0);
+
+  useInput((input, key) => {
+    if (key.upArrow || input === 'k') {
+      setSelected(prev => Math.max(0, prev - 1));
+    } else if (key.downArrow || input === 'j') {
+      setSelected(prev => Math.min(options.length - 1, prev + 1));
+    } else if (key.return) {
+      const option = options[selected];
+      if (option) {
+        onSelect(option.value);
+      }
+    }
+  });
+
+  return (
+    <Box flexDirection="column">
+      {options.map((option, index) => (
+        <Text key={option.label} color={index === selected ? 'green' : 'white'}>
+          {index === selected ? '› ' : '  '}{option.label}
+        </Text>
+      ))}
+    </Box>
+  );
+}
+
+interface PromptProps {
+  initialValue?: string;
+  placeholder?: string;
+  onSubmit: (value: string) => void;
+}
+
+/**
+ * Single-line text input that keeps its own value
+ */
+function Prompt({ initialValue = '', placeholder = '', onSubmit }: PromptProps) {
+  const [value, setValue] = useState(initialValue);
+  return (
+    <Box>
+      <Text color="green">› </Text>
+      <TextInput value={value} placeholder={placeholder} onChange={setValue} onSubmit={onSubmit} />
+    </Box>
+  );
+}
+
+function ConfigWizard({ name: initialName, onDone }: ConfigWizardProps) {
+  const { exit } = useApp();
+  const { isRawModeSupported } = useStdin();
+  const [step, setStep] = useState<Step>(initialName ? 'provider' : 'name');
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<string[]>(initialName ? [`Name: ${initialName}`] : []);
+  const [answers, setAnswers] = useState<NewConfigAnswers>({
+    name: initialName ?? '',
+    target: 'local',
+    manifestPath: DEFAULT_CHAT_MANIFEST,
+    provider: PROVIDERS[0]!.id,
+    model: PROVIDERS[0]!.models[0]!,
+    mcpServers: []
+  });
+
+  const finish = (result: WizardResult | null) => {
+    onDone(result);
+    exit();
+  };
+
+  useInput((_input, key) => {
+    if (key.escape) {
+      finish(null);
+    }
+  }, { isActive: isRawModeSupported === true });
+
+  // Nothing can be entered without raw mode, so give up immediately
+  useEffect(() => {
+    if (!isRawModeSupported) {
+      finish(null);
+    }
+  }, [isRawModeSupported]);
+
+  if (!isRawModeSupported) {
+    return <Text color="red">❌ Raw mode not supported - pass --model and other flags instead</Text>;
+  }
+
+  const advance = (next: Step, update: Partial<NewConfigAnswers>, line?: string) => {
+    setAnswers(prev => ({ ...prev, ...update }));
+    if (line) {
+      setSummary(prev => [...prev, line]);
+    }
+    setError(null);
+    setStep(next);
+  };
+
+  const addServer = (server: McpServerAnswer, line: string) => {
+    advance('mcpMenu', { mcpServers: [...answers.mcpServers, server] }, line);
+  };
+
+  const provider = PROVIDERS.find(p => p.id === answers.provider) ?? PROVIDERS[0]!;
+  const targetPath = getNewConfigPath(answers.name, answers.target);
+
+  const renderStep = () => {
+    switch (step) {
+      case 'name':
+        return (
+          <>
+            <Text>Config name (e.g. sonnet or work/reviewer):</Text>
+            <Prompt onSubmit={(value) => {
+              const name = value.trim();
+              if (!name) {
+                setError('A name is required');
+              } else {
+                advance('provider', { name }, `Name: ${name}`);
+              }
+            }} />
+          </>
+        );
+
+      case 'provider':
+        return (
+          <>
+            <Text>Provider:</Text>
+            <Select
+              options={PROVIDERS.map(p => ({ label: p.label, value: p.id }))}
+              onSelect={(id) => {
+                const chosen = PROVIDERS.find(p => p.id === id)!;
+                advance('model', { provider: id, model: chosen.models[0]! }, `Provider: ${id}`);
+              }}
+            />
+          </>
+        );
+
+      case 'model':
+        return (
+          <>
+            <Text>Model <Text color="gray">(suggested: {provider.models.join(', ')})</Text>:</Text>
+            <Prompt initialValue={answers.model} onSubmit={(value) => {
+              const model = value.trim();
+              if (!model) {
+                setError('A model is required');
+              } else {
+                advance('temperature', { model }, `Model: ${model}`);
+              }
+            }} />
+          </>
+        );
+
+      case 'temperature':
+        return (
+          <>
+            <Text>Temperature <Text color="gray">(0-2, empty for the model default)</Text>:</Text>
+            <Prompt initialValue="1" onSubmit={(value) => {
+              if (!value.trim()) {
+                advance('maxTokens', { temperature: undefined });
+                return;
+              }
+              const temperature = Number(value);
+              if (isNaN(temperature) || temperature < 0 || temperature > 2) {
+                setError('Temperature must be a number from 0 to 2');
+              } else {
+                advance('maxTokens', { temperature }, `Temperature: ${temperature}`);
+              }
+            }} />
+          </>
+        );
+
+      case 'maxTokens':
+        return (
+          <>
+            <Text>Max tokens <Text color="gray">(empty for the model default)</Text>:</Text>
+            <Prompt initialValue="8192" onSubmit={(value) => {
+              if (!value.trim()) {
+                advance('promptSource', { maxTokens: undefined });
+                return;
+              }
+              const maxTokens = Number(value);
+              if (!Number.isInteger(maxTokens) || maxTokens <= 0) {
+                setError('Max tokens must be a positive whole number');
+              } else {
+                advance('promptSource', { maxTokens }, `Max tokens: ${maxTokens}`);
+              }
+            }} />
+          </>
+        );
+
+      case 'promptSource':
+        return (
+          <>
+            <Text>System prompt:</Text>
+            <Select
+              options={[
+                { label: 'Type it in', value: 'promptInline' as Step },
+                { label: 'Read it from a file', value: 'promptFile' as Step },
+                { label: 'None', value: 'mcpMenu' as Step }
+              ]}
+              onSelect={(next) => advance(next, { systemPrompt: undefined })}
+            />
+          </>
+        );
+
+      case 'promptInline':
+        return (
+          <>
+            <Text>System prompt:</Text>
+            <Prompt onSubmit={(value) => advance('mcpMenu', { systemPrompt: value.trim() || undefined },
+              value.trim() ? 'System prompt: (inline)' : undefined)} />
+          </>
+        );
+
+      case 'promptFile':
+        return (
+          <>
+            <Text>Path to the system prompt file:</Text>
+            <Prompt onSubmit={(value) => {
+              const path = value.trim();
+              if (!existsSync(path)) {
+                setError(`File not found: ${path}`);
+                return;
+              }
+              advance('mcpMenu', { systemPrompt: readFileSync(path, 'utf8').trimEnd() }, `System prompt: ${path}`);
+            }} />
+          </>
+        );
+
+      case 'mcpMenu':
+        return (
+          <>
+            <Text>MCP servers {answers.mcpServers.length > 0 ? <Text color="gray">({answers.mcpServers.length} added)</Text> : null}:</Text>
+            <Select
+              options={[
+                { label: 'Done', value: 'target' as Step },
+                { label: 'Add a stdio server (command)', value: 'mcpStdio' as Step },
+                { label: 'Add an actor server (manifest)', value: 'mcpActor' as Step }
+              ]}
+              onSelect={(next) => advance(next, {})}
+            />
+          </>
+        );
+
+      case 'mcpStdio':
+        return (
+          <>
+            <Text>Command and arguments <Text color="gray">(e.g. fs-mcp-server --allowed-dirs ${'${projectRoot}'})</Text>:</Text>
+            <Prompt onSubmit={(value) => {
+              if (!value.trim()) {
+                setError('A command is required');
+                return;
+              }
+              const server = parseStdioCommand(value);
+              addServer(server, `MCP server: ${value.trim()}`);
+            }} />
+          </>
+        );
+
+      case 'mcpActor':
+        return (
+          <>
+            <Text>Actor manifest path or URL:</Text>
+            <Prompt onSubmit={(value) => {
+              if (!value.trim()) {
+                setError('A manifest is required');
+                return;
+              }
+              addServer({ kind: 'actor', manifestPath: value.trim() }, `MCP actor: ${value.trim()}`);
+            }} />
+          </>
+        );
+
+      case 'target':
+        return (
+          <>
+            <Text>Save to:</Text>
+            <Select
+              options={[
+                { label: `Local (${getNewConfigPath(answers.name, 'local')})`, value: 'local' as const },
+                { label: `Global (${getNewConfigPath(answers.name, 'global')})`, value: 'global' as const }
+              ]}
+              onSelect={(target) => advance('confirm', { target }, `Save to: ${target}`)}
+            />
+          </>
+        );
+
+      case 'confirm': {
+        const exists = existsSync(targetPath);
+        return (
+          <>
+            <Text>Write {targetPath}?</Text>
+            {exists ? <Text color="yellow">⚠ A config already exists there and will be overwritten</Text> : null}
+            <Select
+              options={[
+                { label: 'Yes', value: true },
+                { label: 'No, cancel', value: false }
+              ]}
+              onSelect={(confirmed) => finish(confirmed ? { answers, overwrite: exists } : null)}
+            />
+          </>
+        );
+      }
+    }
+  };
+
+  return (
+    <Box flexDirection="column">
+      <Text color="blue" bold>Create a new config</Text>
+      {summary.map(line => <Text key={line} color="gray">✓ {line}</Text>)}
+      {/* Keyed by step so each prompt starts with fresh input state */}
+      <Box key={step} flexDirection="column" marginTop={1}>
+        {renderStep()}
+      </Box>
+      {error ? <Text color="red">{error}</Text> : null}
+      <Text color="gray" dimColor>Enter: confirm • Esc: cancel</Text>
+    </Box>
+  );
+}
+
+/**
+ * Run the wizard and resolve with the answers, or null if cancelled
+ */
+export async function runConfigWizard(name?: string): Promise<WizardResult | null> {
+  let result: WizardResult | null = null;
+
+  const app = render(
+    <ConfigWizard
+      name={name}
+      onDone={(value) => {
+        result = value;
+      }}
+    />
+  );
+  await app.waitUntilExit();
+
+  return result;
+}
@@ -31,6 +31,8 @@ export interface MultiLineInputProps {
   onCursorChange?: (position: number) => void;
   disabled?: boolean;
   verbose?: boolean;
+  // vim: modal editing; simple: always inserting, Enter submits and Alt+Enter adds a line
+  keybindings?: 'vim' | 'simple';
 }
 
 const HELP_COMMANDS: HelpCommands = {
@@ -75,8 +77,21 @@ const HELP_COMMANDS: HelpCommands = {
   }
 };
 
-function HelpPanel({ mode }: { mode: 'insert' | 'command' }) {
-  const commands = HELP_COMMANDS[mode];
+const SIMPLE_HELP_COMMANDS: HelpCommands['insert'] = {
+  editing: {
+    'Type': 'Insert text',
+    'Alt+Enter': 'New line',
+    'Backspace': 'Delete previous',
+    '↑↓←→': 'Navigate'
+  },
+  other: {
+    'Enter': 'Submit message',
+    'F1': 'Toggle help'
+  }
+};
+
+function HelpPanel({ mode, keybindings }: { mode: 'insert' | 'command'; keybindings: 'vim' | 'simple' }) {
+  const commands = keybindings === 'simple' ? SIMPLE_HELP_COMMANDS : HELP_COMMANDS[mode];
   const modeColor = mode === 'insert' ? 'green' : 'blue';
 
   return (
@@ -125,7 +140,8 @@ export function MultiLineInput({
   onContentChange,
   onCursorChange,
   disabled = false,
-  verbose = false
+  verbose = false,
+  keybindings = 'vim'
 }: MultiLineInputProps) {
 
   // Use internal state if not controlled
@@ -238,6 +254,21 @@ export function MultiLineInput({
     }
     if (disabled) return;
 
+    if (keybindings === 'simple') {
+      if (key.escape) {
+        return;
+      }
+      if (key.return) {
+        // Alt+Enter adds a line, plain Enter submits
+        if (key.meta) {
+          insertText('\n');
+        } else {
+          handleSubmit();
+        }
+        return;
+      }
+    }
+
     if (key.escape) {
       // Escape always goes to command mode, but doesn't close help
       onModeChange?.('command');
@@ -560,7 +591,7 @@ export function MultiLineInput({
 
       {showHelp && (
         <Box marginBottom={1}>
-          <HelpPanel mode={mode} />
+          <HelpPanel mode={mode} keybindings={keybindings} />
         </Box>
       )}
     </Box>
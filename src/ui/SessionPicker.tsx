@@ -0,0 +1,97 @@
+/**
+ * Interactive picker for choosing a saved chat session
+ */
+
+import { render, Box, Text, useApp, useInput, useStdin } from 'ink';
+import { useEffect, useState } from 'react';
+import type { SavedSessionInfo } from '../saved-sessions.js';
+
+interface SessionPickerProps {
+  sessions: SavedSessionInfo[];
+  onSelect: (session: SavedSessionInfo | null) => void;
+}
+
+// Number of sessions visible at once
+const VISIBLE_ROWS = 10;
+
+/**
+ * Truncate text to a single line of at most `max` characters
+ */
+function truncate(text: string, max: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > max ? `${singleLine.slice(0, max - 1)}…` : singleLine;
+}
+
+function SessionPicker({ sessions, onSelect }: SessionPickerProps) {
+  const { exit } = useApp();
+  const { isRawModeSupported } = useStdin();
+  const [selected, setSelected] = useState(0);
+
+  useInput((input, key) => {
+    if (key.upArrow || input === 'k') {
+      setSelected(prev => Math.max(0, prev - 1));
+    } else if (key.downArrow || input === 'j') {
+      setSelected(prev => Math.min(sessions.length - 1, prev + 1));
+    } else if (key.return) {
+      onSelect(sessions[selected] ?? null);
+      exit();
+    } else if (key.escape || input === 'q') {
+      onSelect(null);
+      exit();
+    }
+  }, { isActive: isRawModeSupported === true });
+
+  // Nothing can be selected without raw mode, so give up immediately
+  useEffect(() => {
+    if (!isRawModeSupported) {
+      onSelect(null);
+      exit();
+    }
+  }, [isRawModeSupported]);
+
+  if (!isRawModeSupported) {
+    return <Text color="red">❌ Raw mode not supported - pass a session name instead</Text>;
+  }
+
+  // Keep the selected row inside the visible window
+  const start = Math.max(0, Math.min(selected - Math.floor(VISIBLE_ROWS / 2), sessions.length - VISIBLE_ROWS));
+  const visible = sessions.slice(start, start + VISIBLE_ROWS);
+
+  return (
+    <Box flexDirection="column">
+      <Text color="blue">Select a session to resume:</Text>
+      {visible.map((session, index) => {
+        const isSelected = start + index === selected;
+        return (
+          <Text key={session.name} color={isSelected ? 'green' : 'white'}>
+            {isSelected ? '› ' : '  '}
+            {session.lastActiveAt.toLocaleString().padEnd(22)}
+            <Text bold>{truncate(session.title || session.name, 28).padEnd(29)}</Text>
+            <Text color="gray">{truncate(session.model || '-', 24).padEnd(25)}</Text>
+            <Text dimColor>{truncate(session.firstUserMessage || '', 40)}</Text>
+          </Text>
+        );
+      })}
+      <Text color="gray" dimColor>↑↓: move • Enter: resume • Esc: cancel</Text>
+    </Box>
+  );
+}
+
+/**
+ * Show the session picker and resolve with the chosen session, or null if cancelled
+ */
+export async function pickSavedSession(sessions: SavedSessionInfo[]): Promise<SavedSessionInfo | null> {
+  let choice: SavedSessionInfo | null = null;
+
+  const app = render(
+    <SessionPicker
+      sessions={sessions}
+      onSelect={(session) => {
+        choice = session;
+      }}
+    />
+  );
+  await app.waitUntilExit();
+
+  return choice;
+}